@@ -0,0 +1,213 @@
+// adapter.ts - Common adapter interface and model registry
+//
+// Every browser adapter implements `BrowserChatAdapter` and registers itself
+// with `registerAdapter()` when its module is imported. The server builds its
+// router, model list and shutdown sequence from this registry, so adding a new
+// adapter only requires importing its module.
+import {
+  AdapterScheduler,
+  type SchedulerOptions,
+  type SchedulerStatus,
+} from "./scheduler.ts";
+import type { OutputFormat } from "./markdown.ts";
+
+export interface AdapterCapabilities {
+  /** Whether `sendMessage` accepts file paths to upload alongside the prompt */
+  fileUpload: boolean;
+}
+
+export interface AdapterMetadata {
+  /** Model name exposed to clients, e.g. "gemini-browser" */
+  name: string;
+  /** Model family reported in /api/tags and /api/show */
+  family: string;
+  /** License string reported in /api/show */
+  license: string;
+  /** Site the adapter automates, e.g. "gemini.google.com" */
+  site: string;
+  /**
+   * Tags selectable as `name:tag` (e.g. "gemini-browser:pro"); the adapter
+   * picks the matching entry in the site's model picker before sending
+   */
+  variants?: string[];
+}
+
+export interface SendMessageOptions {
+  /** Called with each new chunk of markdown while the response is generated */
+  onDelta?: (delta: string) => void;
+  /**
+   * Aborted when the client goes away. The adapter stops generation in the
+   * page and rejects with RequestAbortedError once the tab is idle again.
+   */
+  signal?: AbortSignal;
+  /** One of `metadata.variants`; omitted keeps whatever the site has selected */
+  variant?: string;
+  /** Shape of the reply and its deltas; markdown unless set */
+  format?: OutputFormat;
+}
+
+export interface ReadyOptions {
+  /** Open a dedicated tab instead of reusing an existing one for the site */
+  newTab?: boolean;
+  /** Fail with SignInRequiredError instead of using a logged-out site */
+  ensureSignedIn?: boolean;
+  /**
+   * Only open the site, without waiting for the chat; `wollama login` uses
+   * this to show the sign-in page. The adapter is not ready afterwards.
+   */
+  openOnly?: boolean;
+}
+
+export interface TabStatus {
+  /** ensureReady() completed and the tab is still open */
+  ready: boolean;
+  /** Current URL of the adapter's tab, null when it has none */
+  url: string | null;
+}
+
+export interface BrowserChatAdapter {
+  readonly metadata: AdapterMetadata;
+  readonly capabilities: AdapterCapabilities;
+  ensureReady(options?: ReadyOptions): Promise<void>;
+  /**
+   * Waits up to `timeoutMs` (0 = forever, default the ready timeout) for the
+   * site to show its chat or a sign-in prompt; true if the tab is signed in
+   */
+  isSignedIn(timeoutMs?: number): Promise<boolean>;
+  /** Sends a prompt and resolves with the full response as markdown */
+  sendMessage(
+    prompt: string,
+    files?: string[],
+    options?: SendMessageOptions,
+  ): Promise<string>;
+  /**
+   * Points the tab at an existing chat thread, or at a fresh chat when `url`
+   * is null. Adapters without thread support omit this and every chat request
+   * is sent as a single flattened prompt.
+   */
+  openConversation?(url: string | null): Promise<void>;
+  /** URL of the chat thread currently open in the tab */
+  getConversationUrl?(): string | null;
+  /** Readiness and location of the adapter's tab, for status reporting */
+  getTabStatus(): TabStatus;
+  /** Gives up the current tab after a failure; the next ensureReady() reopens it */
+  resetTab(): Promise<void>;
+  close(): Promise<void>;
+}
+
+export interface AdapterRegistration {
+  metadata: AdapterMetadata;
+  capabilities: AdapterCapabilities;
+  /** Creates one adapter instance; a tab pool calls this once per tab */
+  create(): BrowserChatAdapter;
+}
+
+const registrations = new Map<string, AdapterRegistration>();
+const schedulers = new Map<string, AdapterScheduler>();
+// Models being served; null serves every registered adapter
+let enabled: Set<string> | null = null;
+
+let schedulerOptions: SchedulerOptions = {
+  poolSize: 1,
+  maxQueueDepth: 16,
+  queueTimeoutMs: 5 * 60 * 1000,
+};
+
+export function configureScheduler(options: Partial<SchedulerOptions>) {
+  schedulerOptions = { ...schedulerOptions, ...options };
+}
+
+// Site root per model, e.g. a mirror or a local mock site
+const baseUrls = new Map<string, string>();
+
+export function configureBaseUrls(urls: Record<string, string>) {
+  for (const [model, url] of Object.entries(urls)) {
+    baseUrls.set(model, url.replace(/\/+$/, ""));
+  }
+}
+
+/** Root URL the named adapter drives: its configured base URL or `siteUrl` */
+export function baseUrlFor(model: string, siteUrl: string): string {
+  return baseUrls.get(model) ?? siteUrl;
+}
+
+/** Restricts the server to these models (null serves all registered ones) */
+export function setEnabledAdapters(names: string[] | null) {
+  enabled = names ? new Set(names) : null;
+}
+
+export function registerAdapter(registration: AdapterRegistration) {
+  const name = registration.metadata.name;
+  if (registrations.has(name)) {
+    throw new Error(`Adapter already registered: ${name}`);
+  }
+  registrations.set(name, registration);
+}
+
+export function listAdapters(): AdapterRegistration[] {
+  return [...registrations.values()].filter((r) =>
+    !enabled || enabled.has(r.metadata.name)
+  );
+}
+
+export interface ModelName {
+  /** Registered adapter name */
+  base: string;
+  /** Variant tag, undefined for a bare name or ":latest" */
+  variant?: string;
+}
+
+// Ollama-style "name:tag"; "latest" is Ollama's default tag and means the
+// site's current selection, like the bare name
+export function parseModelName(modelName: string): ModelName {
+  const [base, tag] = modelName.split(":", 2);
+  return { base, variant: tag && tag !== "latest" ? tag : undefined };
+}
+
+/** Looks up an adapter by model name, including its variant tags */
+export function getRegistration(
+  modelName: string,
+): AdapterRegistration | null {
+  // Names come straight from request bodies; a missing model is unknown
+  if (typeof modelName !== "string") return null;
+  const { base, variant } = parseModelName(modelName);
+  const registration = registrations.get(base);
+  if (!registration || (enabled && !enabled.has(base))) return null;
+  if (variant && !registration.metadata.variants?.includes(variant)) {
+    return null;
+  }
+  return registration;
+}
+
+// Adapters are created lazily so unused models never touch the browser. All
+// variants of a model share its tabs.
+export function getScheduler(modelName: string): AdapterScheduler | null {
+  const registration = getRegistration(modelName);
+  if (!registration) return null;
+
+  const base = registration.metadata.name;
+  const existing = schedulers.get(base);
+  if (existing) return existing;
+
+  const scheduler = new AdapterScheduler(
+    base,
+    registration.create,
+    schedulerOptions,
+  );
+  schedulers.set(base, scheduler);
+  return scheduler;
+}
+
+/** Tab pool status of a model; null until its first request */
+export function getModelStatus(modelName: string): SchedulerStatus | null {
+  const registration = getRegistration(modelName);
+  if (!registration) return null;
+  return schedulers.get(registration.metadata.name)?.status() ?? null;
+}
+
+export async function closeAdapters(): Promise<void> {
+  for (const scheduler of schedulers.values()) {
+    await scheduler.close();
+  }
+  schedulers.clear();
+}
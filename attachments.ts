@@ -0,0 +1,114 @@
+// attachments.ts - Materialize base64 images and attachments as temp files
+//
+// Adapters upload files through the site's file chooser, which needs real
+// paths. Requests carry Ollama's base64 `images` field and Wollama's
+// `attachments` extension; both are written to a private temp directory for
+// the duration of one request and removed afterwards.
+import type { BrowserChatAdapter } from "./adapter.ts";
+import {
+  AttachmentsNotSupportedError,
+  InvalidAttachmentError,
+} from "./errors.ts";
+import { Buffer } from "node:buffer";
+import { mkdtemp, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { basename, join } from "node:path";
+import { Logger } from "./logger.ts";
+
+const log = new Logger("Attachments");
+
+/** Wollama extension: an arbitrary file, e.g. a PDF */
+export interface Attachment {
+  /** File name shown to the model; its extension matters to most sites */
+  name: string;
+  /** Base64 content, optionally as a data: URL */
+  data: string;
+}
+
+export interface AttachmentSource {
+  /** Ollama images: base64 strings, optionally as data: URLs */
+  images?: string[];
+  attachments?: Attachment[];
+}
+
+export function hasAttachments(sources: AttachmentSource[]): boolean {
+  return sources.some((s) =>
+    (s.images?.length ?? 0) > 0 || (s.attachments?.length ?? 0) > 0
+  );
+}
+
+function decodeBase64(data: string, label: string): Buffer {
+  const base64 = data.replace(/^data:[^,]*;base64,/, "");
+  const bytes = Buffer.from(base64, "base64");
+  if (bytes.length === 0) {
+    throw new InvalidAttachmentError(`${label} is empty or not valid base64`);
+  }
+  return bytes;
+}
+
+// Clients send bare base64 images, so sniff the extension from magic bytes
+function imageExtension(bytes: Buffer): string {
+  const ascii = bytes.subarray(0, 12).toString("latin1");
+  if (ascii.startsWith("\x89PNG")) return ".png";
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) return ".jpg";
+  if (ascii.startsWith("GIF8")) return ".gif";
+  if (ascii.startsWith("RIFF") && ascii.slice(8, 12) === "WEBP") return ".webp";
+  return ".png";
+}
+
+async function materialize(sources: AttachmentSource[], dir: string) {
+  const files: string[] = [];
+
+  for (const source of sources) {
+    for (const image of source.images ?? []) {
+      const label = `image #${files.length + 1}`;
+      const bytes = decodeBase64(image, label);
+      const path = join(
+        dir,
+        `image-${files.length + 1}${imageExtension(bytes)}`,
+      );
+      await writeFile(path, bytes);
+      files.push(path);
+    }
+
+    for (const attachment of source.attachments ?? []) {
+      if (!attachment.name || typeof attachment.data !== "string") {
+        throw new InvalidAttachmentError(
+          "Attachments need a 'name' and base64 'data'",
+        );
+      }
+      const bytes = decodeBase64(attachment.data, attachment.name);
+      // Keep the name the client chose, but never let it escape the directory
+      const path = join(
+        dir,
+        `${files.length + 1}-${basename(attachment.name)}`,
+      );
+      await writeFile(path, bytes);
+      files.push(path);
+    }
+  }
+
+  return files;
+}
+
+// Runs `task` with the attachments written to disk, then removes them
+export async function withAttachments<T>(
+  adapter: BrowserChatAdapter,
+  sources: AttachmentSource[],
+  task: (files: string[]) => Promise<T>,
+): Promise<T> {
+  if (!hasAttachments(sources)) return task([]);
+
+  if (!adapter.capabilities.fileUpload) {
+    throw new AttachmentsNotSupportedError(adapter.metadata.name);
+  }
+
+  const dir = await mkdtemp(join(tmpdir(), "wollama-upload-"));
+  try {
+    const files = await materialize(sources, dir);
+    log.info(`Prepared ${files.length} files`);
+    return await task(files);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
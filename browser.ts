@@ -1,21 +1,76 @@
 // browser.ts - Chrome browser management utilities
-import { Browser, chromium } from "npm:playwright@1.56.1";
+import { Browser, chromium, Page } from "npm:playwright@1.56.1";
 import { ChildProcess, spawn } from "node:child_process";
-import { mkdtempSync, rmSync } from "node:fs";
+import { mkdirSync, mkdtempSync, rmSync } from "node:fs";
 import { tmpdir } from "node:os";
 import { join } from "node:path";
 import process from "node:process";
+import { BrowserDisconnectedError } from "./errors.ts";
+import { chromeLaunches } from "./metrics.ts";
+import { Logger } from "./logger.ts";
 
-let chromeProcess: ChildProcess | null = null;
-let launchedByUs = false;
-let tempDir: string | null = null;
-let useDefaultProfile = false;
+const log = new Logger("Browser");
+
+// Tabs currently owned by an adapter, so pooled adapters never share a page
+const claimedPages = new WeakSet<Page>();
+
+export interface BrowserOptions {
+  /** Chrome binary to launch instead of searching the usual locations */
+  chromePath?: string;
+  /** Extra flags for a Chrome we launch */
+  flags: string[];
+  /** Remote debugging port for adapters without their own */
+  cdpPort: number;
+  /** Remote debugging port per adapter name */
+  adapterPorts: Record<string, number>;
+  /**
+   * Profile for a Chrome we launch: "temp" for a throwaway one, "default" for
+   * the user's everyday profile, anything else names a persistent profile
+   * kept under `dataDir`
+   */
+  profile: string;
+  /** Directory holding the named profiles */
+  dataDir: string;
+  /** Launch Chrome without a window */
+  headless: boolean;
+}
+
+let browserOptions: BrowserOptions = {
+  flags: [],
+  cdpPort: 9222,
+  adapterPorts: {},
+  profile: "temp",
+  dataDir: join(tmpdir(), "wollama"),
+  headless: false,
+};
+
+export function configureBrowser(options: Partial<BrowserOptions>) {
+  browserOptions = { ...browserOptions, ...options };
+}
+
+/** Remote debugging port the named adapter connects to */
+export function cdpPortFor(adapter: string): number {
+  return browserOptions.adapterPorts[adapter] ?? browserOptions.cdpPort;
+}
 
 export function setUseDefaultProfile(value: boolean) {
-  useDefaultProfile = value;
+  configureBrowser({ profile: value ? "default" : "temp" });
+}
+
+/**
+ * Chrome user data directory of a named profile for the Chrome on `port`.
+ * Two Chromes can't share one directory, so each port gets its own.
+ */
+export function profileDir(
+  name: string,
+  port = browserOptions.cdpPort,
+): string {
+  return join(browserOptions.dataDir, "profiles", name, String(port));
 }
 
-export async function isPortOpen(port = 9222): Promise<boolean> {
+export async function isPortOpen(
+  port = browserOptions.cdpPort,
+): Promise<boolean> {
   try {
     const res = await fetch(`http://localhost:${port}/json/version`);
     return res.ok;
@@ -24,121 +79,222 @@ export async function isPortOpen(port = 9222): Promise<boolean> {
   }
 }
 
-export async function launchChrome(port = 9222): Promise<void> {
-  console.log(`[Browser] Chrome not found on port ${port}, launching...`);
+function chromeCandidates(): string[] {
+  if (browserOptions.chromePath) return [browserOptions.chromePath];
 
-  const chromePaths: string[] = [];
   if (process.platform === "linux") {
-    chromePaths.push(
+    return [
       "google-chrome",
       "google-chrome-stable",
       "/usr/bin/google-chrome",
       "chromium",
       "chromium-browser",
-    );
+    ];
   } else if (process.platform === "darwin") {
-    chromePaths.push(
-      "/Applications/Google Chrome.app/Contents/MacOS/Google Chrome",
-    );
+    return ["/Applications/Google Chrome.app/Contents/MacOS/Google Chrome"];
   } else if (process.platform === "win32") {
-    chromePaths.push(
+    return [
       "C:\\Program Files\\Google\\Chrome\\Application\\chrome.exe",
       "C:\\Program Files (x86)\\Google\\Chrome\\Application\\chrome.exe",
-    );
+    ];
+  }
+  return [];
+}
+
+// One Chrome reachable on one debugging port. If nothing listens there when
+// the first adapter connects, the manager launches its own Chrome (with the
+// configured profile) and stops it again once the last adapter has released it.
+// A Chrome the user started is only disconnected from, never closed.
+export class BrowserManager {
+  private chromeProcess: ChildProcess | null = null;
+  private tempDir: string | null = null;
+  private connection: Promise<Browser> | null = null;
+  // Adapters using this browser; it shuts down when the last one leaves
+  private holders = new Set<object>();
+
+  constructor(readonly port: number) {}
+
+  /**
+   * Registers `holder` as a user of this browser and resolves with the
+   * shared connection. Acquiring again with the same holder is a no-op.
+   */
+  acquire(holder: object): Promise<Browser> {
+    this.holders.add(holder);
+    if (!this.connection) {
+      const connection = this.connect();
+      this.connection = connection;
+
+      const forget = () => {
+        if (this.connection === connection) this.connection = null;
+      };
+      connection.then(
+        (browser) => browser.on("disconnected", forget),
+        forget,
+      );
+    }
+    return this.connection;
   }
 
-  const args = [
-    `--remote-debugging-port=${port}`,
-    "--no-first-run",
-    "--no-default-browser-check",
-  ];
-
-  if (!useDefaultProfile) {
-    tempDir = mkdtempSync(join(tmpdir(), `chrome-${port}-`));
-    args.push(`--user-data-dir=${tempDir}`);
-  } else {
-    console.log("[Browser] Using default Chrome profile");
+  /** Drops `holder`; the last one out disconnects and stops our Chrome */
+  async release(holder: object) {
+    if (!this.holders.delete(holder) || this.holders.size > 0) return;
+
+    managers.delete(this.port);
+    const connection = this.connection;
+    this.connection = null;
+    const browser = await connection?.catch(() => null);
+    if (browser) await browser.close();
+
+    if (this.chromeProcess) {
+      log.info(`Closing Chrome instance on port ${this.port}...`);
+      this.chromeProcess.kill();
+      this.chromeProcess = null;
+    }
+
+    // Only clean up temp directory if we created one
+    if (this.tempDir) {
+      try {
+        rmSync(this.tempDir, { recursive: true, force: true });
+      } catch {
+        // FIXME: somehow this fails in node/bun with directory not empty
+      }
+      this.tempDir = null;
+    }
   }
 
-  for (const chromePath of chromePaths) {
+  private async connect(): Promise<Browser> {
+    const port = this.port;
     try {
-      chromeProcess = spawn(chromePath, args, {
-        detached: true,
-        stdio: ["ignore", "ignore", "pipe"],
-      });
-
-      let lockErrorDetected = false;
-      chromeProcess.stderr?.on("data", (data) => {
-        const output = data.toString();
-        if (
-          output.includes("SingletonLock") ||
-          output.includes("profile appears to be in use")
-        ) {
-          lockErrorDetected = true;
+      if (!(await isPortOpen(port))) {
+        await this.launch();
+      }
+      log.info(
+        `Connecting to Chrome at http://localhost:${port}...`,
+      );
+      return await chromium.connectOverCDP(`http://localhost:${port}`);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new BrowserDisconnectedError(message, { cause: error });
+    }
+  }
+
+  private async launch(): Promise<void> {
+    const port = this.port;
+    log.info(`Chrome not found on port ${port}, launching...`);
+
+    const args = [
+      `--remote-debugging-port=${port}`,
+      "--no-first-run",
+      "--no-default-browser-check",
+      ...browserOptions.flags,
+    ];
+
+    const { profile } = browserOptions;
+    if (profile === "temp") {
+      // Kept across relaunches so a crashed Chrome comes back signed in
+      this.tempDir ??= mkdtempSync(join(tmpdir(), `chrome-${port}-`));
+      args.push(`--user-data-dir=${this.tempDir}`);
+    } else if (profile === "default") {
+      log.info("Using default Chrome profile");
+    } else {
+      const dir = profileDir(profile, port);
+      mkdirSync(dir, { recursive: true });
+      log.info(`Using profile "${profile}" (${dir})`);
+      args.push(`--user-data-dir=${dir}`);
+    }
+
+    if (browserOptions.headless) {
+      args.push("--headless=new");
+    }
+
+    for (const chromePath of chromeCandidates()) {
+      try {
+        const chromeProcess = spawn(chromePath, args, {
+          detached: true,
+          stdio: ["ignore", "ignore", "pipe"],
+        });
+
+        // A missing binary is reported as an 'error' event, not a throw;
+        // unhandled it would take down the whole server
+        let spawnError: Error | null = null;
+        chromeProcess.once("error", (error) => {
+          spawnError = error;
+        });
+
+        let lockErrorDetected = false;
+        chromeProcess.stderr?.on("data", (data) => {
+          const output = data.toString();
+          if (
+            output.includes("SingletonLock") ||
+            output.includes("profile appears to be in use")
+          ) {
+            lockErrorDetected = true;
+          }
+        });
+
+        for (let i = 0; i < 30; i++) {
+          if (lockErrorDetected) {
+            chromeProcess.kill();
+            throw new Error(
+              "Chrome profile lock is corrupted or in use. Please manually clean up the lock file.",
+            );
+          }
+          await new Promise((r) => setTimeout(r, 500));
+          if (spawnError) break;
+          if (await isPortOpen(port)) {
+            log.info(
+              `✓ Chrome launched (${chromePath}) on port ${port}`,
+            );
+            this.chromeProcess = chromeProcess;
+            chromeLaunches.inc({ port: String(port) });
+            return;
+          }
         }
-      });
-
-      for (let i = 0; i < 30; i++) {
-        if (lockErrorDetected) {
-          chromeProcess.kill();
-          throw new Error(
-            "Chrome profile lock is corrupted or in use. Please manually clean up the lock file.",
-          );
+        if (spawnError) {
+          log.debug(`Could not start ${chromePath}: ${spawnError}`);
+          continue;
         }
-        await new Promise((r) => setTimeout(r, 500));
-        if (await isPortOpen(port)) {
-          console.log(
-            `[Browser] ✓ Chrome launched (${chromePath}) on port ${port}\n`,
-          );
-          launchedByUs = true;
-          return;
+        chromeProcess.kill();
+      } catch (e) {
+        if (
+          e instanceof Error &&
+          e.message.includes("Chrome profile lock is corrupted")
+        ) {
+          throw e;
         }
+        // Path not found or other error, try next
       }
-      chromeProcess.kill();
-    } catch (e) {
-      if (
-        e instanceof Error &&
-        e.message.includes("Chrome profile lock is corrupted")
-      ) {
-        throw e;
-      }
-      // Path not found or other error, try next
     }
-  }
 
-  throw new Error(
-    `Could not launch Chrome. Please start it manually with:\n` +
-      `  google-chrome --remote-debugging-port=${port}`,
-  );
+    throw new Error(
+      `Could not launch Chrome. Please start it manually with:\n` +
+        `  google-chrome --remote-debugging-port=${port}`,
+    );
+  }
 }
 
-export async function ensureBrowser(port = 9222): Promise<Browser> {
-  if (!(await isPortOpen(port))) {
-    await launchChrome(port);
+// One manager per debugging port, shared by every adapter using that browser
+const managers = new Map<number, BrowserManager>();
+
+export function getBrowserManager(
+  port = browserOptions.cdpPort,
+): BrowserManager {
+  let manager = managers.get(port);
+  if (!manager) {
+    manager = new BrowserManager(port);
+    managers.set(port, manager);
   }
-  console.log(`[Browser] Connecting to Chrome at http://localhost:${port}...`);
-  return chromium.connectOverCDP(`http://localhost:${port}`);
+  return manager;
 }
 
-export async function closeBrowser(browser: Browser | null): Promise<void> {
-  if (browser) {
-    await browser.close();
-  }
+export function claimPage(page: Page) {
+  claimedPages.add(page);
+}
 
-  if (launchedByUs && chromeProcess) {
-    console.log("[Browser] Closing Chrome instance...");
-    chromeProcess.kill();
-    chromeProcess = null;
-    launchedByUs = false;
-  }
+export function releasePage(page: Page) {
+  claimedPages.delete(page);
+}
 
-  // Only clean up temp directory if we created one
-  if (tempDir) {
-    try {
-      rmSync(tempDir, { recursive: true, force: true });
-    } catch {
-      // FIXME: somehow this fails in node/bun with directory not empty
-    }
-    tempDir = null;
-  }
+export function isPageClaimed(page: Page): boolean {
+  return claimedPages.has(page);
 }
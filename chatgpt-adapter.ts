@@ -1,15 +1,89 @@
 // chatgpt-adapter.ts - Playwright automation for ChatGPT
-import { Browser, BrowserContext, Page } from "npm:playwright@1.56.1";
-import { closeBrowser, ensureBrowser } from "./browser.ts";
-import TurndownService from "npm:turndown@7.2.2";
-
-// Initialize Turndown
-const turndown = new TurndownService({
-  codeBlockStyle: "fenced",
-  headingStyle: "atx",
-  bulletListMarker: "-",
+import { Locator } from "npm:playwright@1.56.1";
+import {
+  type AdapterCapabilities,
+  type AdapterMetadata,
+  registerAdapter,
+  type SendMessageOptions,
+} from "./adapter.ts";
+import { stopGeneration, watchResponse } from "./streaming.ts";
+import { SelectorSet } from "./selectors.ts";
+import { SiteAdapter } from "./site-adapter.ts";
+import { PhaseTimer } from "./metrics.ts";
+import { getTimeout } from "./timeouts.ts";
+import { checkLimitNotice, mightBeLimitNotice } from "./limits.ts";
+import { recordFixture, registerConverter } from "./fixtures.ts";
+import { createConverter, formatResponse } from "./markdown.ts";
+import { selectVariant } from "./model-picker.ts";
+import {
+  RequestAbortedError,
+  throwIfAborted,
+  UploadTimeoutError,
+} from "./errors.ts";
+import { Logger } from "./logger.ts";
+
+const log = new Logger("ChatGPT");
+
+const selectors = new SelectorSet("chatgpt", {
+  input: [
+    'div#prompt-textarea[contenteditable="true"]',
+    'div.ProseMirror[contenteditable="true"]',
+    'div[contenteditable="true"]',
+    "textarea#prompt-textarea",
+  ],
+  send: [
+    'button[data-testid="send-button"]',
+    'button[aria-label*="Send prompt"]',
+    'button[aria-label*="Send message"]',
+  ],
+  stop: [
+    'button[data-testid="stop-button"]',
+    'button[aria-label*="Stop"]',
+  ],
+  response: [
+    'div[data-message-author-role="assistant"]',
+    'article[data-testid^="conversation-turn"] .agent-turn',
+  ],
+  // The composer keeps hidden file inputs; the generic one accepts any type
+  fileInput: [
+    'form input[type="file"]:not([accept])',
+    'input[type="file"]:not([accept])',
+    'input[type="file"]',
+  ],
+  attachment: [
+    'form [data-testid="attachment-tile"]',
+    'form [class*="group/attachment"]',
+    'form div[role="group"][aria-label]',
+  ],
+  uploadProgress: [
+    'form [role="progressbar"]',
+    "form circle[stroke-dashoffset]",
+  ],
+  modelPicker: [
+    'button[data-testid="model-switcher-dropdown-button"]',
+    'button[aria-label^="Model selector"]',
+  ],
+  modelOption: [
+    '[role="menuitem"][data-testid^="model-switcher-"]',
+    '[role="menuitem"]',
+  ],
+  signIn: [
+    'button[data-testid="login-button"]',
+    'a[href*="auth.openai.com"]',
+  ],
+  captcha: [
+    'iframe[src*="challenges.cloudflare.com"]',
+    'iframe[src*="arkoselabs"]',
+  ],
+  quota: [
+    '[role="alert"]:text-matches("(reached|hit) (our|your) (usage )?limit", "i")',
+    'form [class*="text-token-text-error"]:text-matches("limit", "i")',
+  ],
 });
 
+// Shared rules from markdown.ts, with ChatGPT's code blocks and citations on top
+const turndown = createConverter();
+
 // --- CUSTOM RULE FOR CHATGPT CODE BLOCKS ---
 // The DOM shows code blocks are <pre> containing a header (language) + button + code
 turndown.addRule("chatgptCodeBlock", {
@@ -34,133 +108,214 @@ turndown.addRule("chatgptCodeBlock", {
   },
 });
 
-export class ChatGPTAdapter {
-  private browser: Browser | null = null;
-  private context: BrowserContext | null = null;
-  private page: Page | null = null;
-  private isReady = false;
-
-  async ensureReady() {
-    if (this.isReady && this.page) return;
+// Web search citations are pills ("Wikipedia +2") linking to the first source
+turndown.addRule("chatgptCitation", {
+  // deno-lint-ignore no-explicit-any
+  filter: (node: any) =>
+    node.getAttribute?.("data-testid") === "webpage-citation-pill",
+  // deno-lint-ignore no-explicit-any
+  replacement: (_content: any, node: any) => {
+    const link = node.querySelector("a[href]");
+    if (!link) return "";
+    const title = link.textContent.replace(/\s*\+\d+\s*$/, "").trim() ||
+      link.getAttribute("href");
+    return ` ([${title}](${link.getAttribute("href")}))`;
+  },
+});
 
-    this.browser = await ensureBrowser();
-    const contexts = this.browser.contexts();
-    if (contexts.length === 0) throw new Error("No browser context found");
-    this.context = contexts[0];
+const limitNotices = [
+  /^you(['’]ve| have) (reached|hit) (our|your|the) (usage |message )?limit/i,
+  /^too many requests/i,
+];
+
+const toMarkdown = (html: string): string => turndown.turndown(html);
+
+registerConverter("chatgpt", toMarkdown);
+
+// Variant tags (e.g. "chatgpt-browser:o3") and their model picker entries
+const modelPicker = {
+  selectors,
+  trigger: "modelPicker",
+  option: "modelOption",
+  labels: {
+    auto: /\bAuto\b/,
+    instant: /\bInstant\b/,
+    thinking: /\bThinking\b/,
+    pro: /\bPro\b/,
+    o3: /\bo3\b/,
+  },
+} as const;
+
+const metadata: AdapterMetadata = {
+  name: "chatgpt-browser",
+  family: "chatgpt",
+  license: "OpenAI",
+  site: "chatgpt.com",
+  variants: Object.keys(modelPicker.labels),
+};
+
+const capabilities: AdapterCapabilities = {
+  fileUpload: true,
+};
+
+export class ChatGPTAdapter extends SiteAdapter {
+  readonly metadata = metadata;
+  readonly capabilities = capabilities;
+
+  constructor() {
+    super(selectors, log, { root: "https://chatgpt.com", newChat: "/" });
+  }
 
-    const pages = this.context.pages();
-    const chatGPTPage = pages.find((p) => p.url().includes("chatgpt.com"));
+  async sendMessage(
+    prompt: string,
+    files: string[] = [],
+    options: SendMessageOptions = {},
+  ): Promise<string> {
+    if (!this.page) throw new Error("Browser not initialized");
+    const timer = new PhaseTimer(metadata.name);
 
-    if (chatGPTPage) {
-      console.log("[ChatGPT] Found existing ChatGPT tab.");
-      this.page = chatGPTPage;
-    } else {
-      this.page = pages[0] || (await this.context.newPage());
+    if (options.variant) {
+      await selectVariant(this.page, modelPicker, options.variant);
     }
 
-    this.page.setDefaultTimeout(0);
+    if (files.length > 0) {
+      log.info(`Uploading ${files.length} files...`);
 
-    if (!this.page.url().includes("chatgpt.com")) {
-      console.log("[ChatGPT] Navigating to chatgpt.com...");
-      await this.page.goto("https://chatgpt.com", {
-        waitUntil: "domcontentloaded",
+      // The "+" menu only forwards to this input, so fill it directly
+      const fileInput = await selectors.resolve(this.page, "fileInput", {
+        state: "attached",
       });
+      await fileInput.first().setInputFiles(files);
+      timer.mark("upload");
     }
 
-    console.log("[ChatGPT] Waiting for input...");
-    // Wait for the prose-mirror input div
-    await this.page.waitForSelector('div[contenteditable="true"]', {
-      timeout: 0,
-      state: "visible",
-    });
-
-    console.log("[ChatGPT] ✓ Connected and Ready!\n");
-    this.isReady = true;
-  }
-
-  async sendMessage(prompt: string): Promise<string> {
-    if (!this.page) throw new Error("Browser not initialized");
-
-    console.log(`[ChatGPT] Sending message (${prompt.length} chars)...`);
+    log.info(`Sending message (${prompt.length} chars)...`);
 
-    const inputSelector = 'div[contenteditable="true"]';
-    const input = await this.page.waitForSelector(inputSelector);
-
-    if (!input) throw new Error("Could not find input field");
+    const input = (await selectors.resolve(this.page, "input")).first();
 
     await input.click();
     await this.page.waitForTimeout(200);
     await input.fill(prompt);
 
-    console.log("[ChatGPT] Waiting for Send button...");
+    log.debug("Waiting for Send button...");
     // The send button usually has data-testid="send-button"
-    const sendButtonSelector = 'button[data-testid="send-button"]';
-    const sendButton = await this.page.waitForSelector(sendButtonSelector, {
-      state: "visible",
-      timeout: 5000,
+    const sendButton = await selectors.resolve(this.page, "send", {
+      timeoutMs: 5000,
     });
 
-    if (!sendButton) throw new Error("Send button did not appear");
+    if (files.length > 0) {
+      await this.waitForUploads(files.length, sendButton.first());
+    }
 
-    await sendButton.click();
+    // Remember how many responses exist so we never read an old one
+    const before = await selectors.count(this.page, "response");
 
-    console.log("[ChatGPT] Message sent, waiting for response...");
+    throwIfAborted(options.signal);
+    await sendButton.first().click();
+    timer.mark("send");
+
+    log.info("Message sent, waiting for response...");
 
     // Wait for generation to finish.
     // Strategy: Wait for the "Stop generating" button to disappear.
-    // Based on common ChatGPT DOM, the stop button usually has aria-label="Stop generating"
-    try {
-      const stopButton = this.page.locator('button[aria-label*="Stop"]');
-      // It might take a split second to appear
-      await stopButton.waitFor({ state: "visible", timeout: 3000 }).catch(
-        () => {},
-      );
-      // Now wait for it to be gone
-      await stopButton.waitFor({ state: "hidden", timeout: 0 });
-    } catch {
-      // Fallback just in case
-      await this.page.waitForTimeout(3000);
+    const page = this.page;
+    const stopButton = selectors.any(page, "stop").first();
+    const isGenerating = () => stopButton.isVisible();
+    // It might take a split second to appear
+    await stopButton.waitFor({ state: "visible", timeout: 3000 }).catch(
+      () => {},
+    );
+    const stream = await watchResponse({
+      site: "chatgpt",
+      page,
+      isGenerating,
+      render: async () => {
+        const response = await selectors.findNew(page, "response", before);
+        if (!response) return null;
+        const markdown = response.locator(".markdown");
+        if (await markdown.count() === 0) return null;
+        // deno-lint-ignore no-explicit-any
+        const html = await markdown.evaluate((el: any) => el.innerHTML);
+        const text = toMarkdown(html);
+        // A limit notice must fail the request, not reach the client
+        if (mightBeLimitNotice(text, limitNotices)) return null;
+        return formatResponse(html, text, options.format);
+      },
+      onDelta: options.onDelta,
+      signal: options.signal,
+    });
+
+    if (options.signal?.aborted) {
+      log.info("Client disconnected, stopping generation...");
+      await stopGeneration(page, stopButton, isGenerating);
+      throw new RequestAbortedError();
     }
+    timer.mark("generate");
 
     await this.page.waitForTimeout(500); // Extra breath for rendering
 
-    // --- NEW RESPONSE SELECTOR STRATEGY ---
-    // Based on your DOM: <div data-message-author-role="assistant" ...>
-    const responses = await this.page.locator(
-      'div[data-message-author-role="assistant"]',
-    ).all();
+    // Get the newest response (the one we just generated)
+    const newResponse = await selectors.findNew(this.page, "response", before);
+    // No new message usually means a limit notice or captcha came up instead
+    if (!newResponse) await selectors.checkBlocked(this.page);
+    const lastResponse = newResponse ??
+      (await selectors.resolve(this.page, "response", { state: "attached" }))
+        .last();
 
-    if (responses.length === 0) {
-      throw new Error("No assistant response found in DOM.");
-    }
-
-    // Get the last one (the one we just generated)
-    const lastResponse = responses[responses.length - 1];
-
-    // Find the markdown container inside
+    // Find the markdown container inside; without one (e.g. a notice posted
+    // as a reply) the whole message is converted
     const markdownContent = lastResponse.locator(".markdown");
-
-    if (await markdownContent.count() === 0) {
-      // Fallback: return the whole text of the node if markdown class is missing
-      return await lastResponse.innerText();
-    }
+    const content = await markdownContent.count() === 0
+      ? lastResponse
+      : markdownContent;
 
     // Get inner HTML so we can process the code blocks with Turndown
     // deno-lint-ignore no-explicit-any
-    const html = await markdownContent.evaluate((el: any) => el.innerHTML);
+    const html = await content.evaluate((el: any) => el.innerHTML);
 
-    const responseText = turndown.turndown(html);
+    const markdown = checkLimitNotice(
+      "chatgpt",
+      toMarkdown(html),
+      limitNotices,
+    );
+    const responseText = formatResponse(html, markdown, options.format);
+    timer.mark("scrape");
+    stream.finish(responseText);
+    await recordFixture("chatgpt", html, markdown);
 
-    console.log(
-      `[ChatGPT] ✓ Response received (${responseText.length} chars)\n`,
+    log.info(
+      `✓ Response received (${responseText.length} chars)`,
     );
     return responseText;
   }
 
-  async close() {
-    console.log("[ChatGPT] Disconnecting adapter...");
-    await closeBrowser(this.browser);
-    this.browser = null;
-    this.isReady = false;
+  // Uploads are done once every file has a tile, no progress indicator is
+  // left and ChatGPT has re-enabled the send button
+  private async waitForUploads(count: number, sendButton: Locator) {
+    if (!this.page) throw new Error("Browser not initialized");
+
+    const timeoutMs = getTimeout("upload");
+    const deadline = Date.now() + timeoutMs;
+    const tiles = selectors.any(this.page, "attachment");
+    const progress = selectors.any(this.page, "uploadProgress");
+
+    while (
+      await tiles.count() < count ||
+      await progress.count() > 0 ||
+      !(await sendButton.isEnabled())
+    ) {
+      if (timeoutMs > 0 && Date.now() >= deadline) {
+        throw new UploadTimeoutError("chatgpt", count, timeoutMs);
+      }
+      await this.page.waitForTimeout(250);
+    }
+
+    log.info(`✓ ${count} upload(s) processed`);
   }
 }
+
+registerAdapter({
+  metadata,
+  capabilities,
+  create: () => new ChatGPTAdapter(),
+});
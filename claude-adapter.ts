@@ -0,0 +1,286 @@
+// claude-adapter.ts - Playwright automation for Claude (claude.ai)
+import {
+  type AdapterCapabilities,
+  type AdapterMetadata,
+  registerAdapter,
+  type SendMessageOptions,
+} from "./adapter.ts";
+import { stopGeneration, watchResponse } from "./streaming.ts";
+import { SelectorSet } from "./selectors.ts";
+import { SiteAdapter } from "./site-adapter.ts";
+import { PhaseTimer } from "./metrics.ts";
+import { checkLimitNotice, mightBeLimitNotice } from "./limits.ts";
+import { recordFixture, registerConverter } from "./fixtures.ts";
+import { createConverter, formatResponse } from "./markdown.ts";
+import { selectVariant } from "./model-picker.ts";
+import { RequestAbortedError, throwIfAborted } from "./errors.ts";
+import { Logger } from "./logger.ts";
+
+const log = new Logger("Claude");
+
+const selectors = new SelectorSet("claude", {
+  input: [
+    'div[contenteditable="true"].ProseMirror',
+    'div[contenteditable="true"][aria-label*="prompt"]',
+    'div[contenteditable="true"]',
+  ],
+  // Disabled while attachments are still processing
+  send: [
+    'button[aria-label="Send message"]:not([disabled])',
+    'button[aria-label*="Send"]:not([disabled])',
+  ],
+  // The message being generated is flagged with data-is-streaming="true"
+  generating: [
+    'div[data-is-streaming="true"]',
+    'button[aria-label="Stop response"]',
+  ],
+  stop: [
+    'button[aria-label="Stop response"]',
+    'button[aria-label*="Stop"]',
+  ],
+  response: [
+    "div[data-is-streaming]",
+    ".font-claude-response",
+    ".font-claude-message",
+  ],
+  fileInput: [
+    'input[data-testid="file-upload"]',
+    'input[type="file"]',
+  ],
+  fileThumbnail: [
+    '[data-testid="file-thumbnail"]',
+    '[data-testid*="attachment"]',
+  ],
+  modelPicker: [
+    'button[data-testid="model-selector-dropdown"]',
+    'button[aria-haspopup="menu"]:has-text("Claude")',
+  ],
+  modelOption: [
+    '[role="menuitem"]',
+    '[role="menuitemradio"]',
+  ],
+  signIn: [
+    'button[data-testid="login-with-google"]',
+    'input#email[type="email"]',
+  ],
+  captcha: [
+    'iframe[src*="challenges.cloudflare.com"]',
+  ],
+  quota: [
+    '[role="alert"]:text-matches("out of free messages", "i")',
+    '[role="alert"]:text-matches("(usage|message) limit reached", "i")',
+  ],
+});
+
+// Shared rules from markdown.ts, with Claude's code blocks and artifacts on top
+const turndown = createConverter();
+
+// Claude renders code as <pre><code class="language-xxx">, usually wrapped in
+// a container that also holds a language label and a copy button
+turndown.addRule("claudeCodeBlock", {
+  filter: "pre",
+  // deno-lint-ignore no-explicit-any
+  replacement: (_content: string, node: any) => {
+    // deno-lint-ignore no-explicit-any
+    const el = node as any;
+    const codeEl = el.querySelector("code");
+    if (!codeEl) return `\n\n\`\`\`\n${el.textContent}\n\`\`\`\n\n`;
+
+    const langClass = (codeEl.getAttribute("class") || "")
+      .split(/\s+/)
+      .find((c: string) => c.startsWith("language-"));
+    const lang = langClass ? langClass.slice("language-".length) : "";
+
+    const code = codeEl.textContent.replace(/\n$/, "");
+    return `\n\n\`\`\`${lang}\n${code}\n\`\`\`\n\n`;
+  },
+});
+
+// Claude wraps each code block in a "group/copy" container that holds the
+// language label and the copy button next to the <pre>
+// deno-lint-ignore no-explicit-any
+const inCodeBlockWrapper = (node: any): boolean => {
+  for (let n = node.parentNode; n; n = n.parentNode) {
+    if ((n.getAttribute?.("class") || "").split(/\s+/).includes("group/copy")) {
+      return true;
+    }
+  }
+  return false;
+};
+
+// Drop the wrapper's label and copy button so only the fenced code remains;
+// buttons and text elsewhere in the answer are left alone
+turndown.addRule("claudeCodeChrome", {
+  // deno-lint-ignore no-explicit-any
+  filter: (node: any) =>
+    (node.nodeName === "BUTTON" || node.nodeName === "DIV") &&
+    !node.querySelector("pre") && inCodeBlockWrapper(node),
+  replacement: () => "",
+});
+
+// Artifacts open in a side panel; the chat only shows a card with the title
+turndown.addRule("claudeArtifact", {
+  // deno-lint-ignore no-explicit-any
+  filter: (node: any) =>
+    node.nodeName === "DIV" &&
+    (node.getAttribute("class") || "").includes("artifact-block-cell"),
+  // deno-lint-ignore no-explicit-any
+  replacement: (_content: string, node: any) => {
+    const title = node.querySelector(".leading-tight")?.textContent?.trim() ||
+      node.textContent?.trim() || "Untitled";
+    return `\n\n> **Artifact:** ${title}\n\n`;
+  },
+});
+
+// Runs in the page: the message body lives in .font-claude-response (newer UI)
+// or .font-claude-message (older UI)
+// deno-lint-ignore no-explicit-any
+const readResponseHtml = (el: any): string => {
+  const body = el.querySelector(".font-claude-response, .font-claude-message");
+  return body?.innerHTML || el.innerHTML;
+};
+
+const limitNotices = [
+  /^you(['’]re| are) out of free messages/i,
+  /^(usage|message) limit reached/i,
+];
+
+const toMarkdown = (html: string): string => turndown.turndown(html);
+
+registerConverter("claude", toMarkdown);
+
+// Variant tags (e.g. "claude-browser:opus") and their model picker entries
+const modelPicker = {
+  selectors,
+  trigger: "modelPicker",
+  option: "modelOption",
+  labels: {
+    opus: /Opus/,
+    sonnet: /Sonnet/,
+    haiku: /Haiku/,
+  },
+} as const;
+
+const metadata: AdapterMetadata = {
+  name: "claude-browser",
+  family: "claude",
+  license: "Anthropic",
+  site: "claude.ai",
+  variants: Object.keys(modelPicker.labels),
+};
+
+const capabilities: AdapterCapabilities = {
+  fileUpload: true,
+};
+
+export class ClaudeAdapter extends SiteAdapter {
+  readonly metadata = metadata;
+  readonly capabilities = capabilities;
+
+  constructor() {
+    super(selectors, log, { root: "https://claude.ai", newChat: "/new" });
+  }
+
+  async sendMessage(
+    prompt: string,
+    files: string[] = [],
+    options: SendMessageOptions = {},
+  ): Promise<string> {
+    if (!this.page) throw new Error("Browser not initialized");
+    const timer = new PhaseTimer(metadata.name);
+
+    if (options.variant) {
+      await selectVariant(this.page, modelPicker, options.variant);
+    }
+
+    if (files.length > 0) {
+      log.info(`Uploading ${files.length} files...`);
+
+      // The attachment button drives a hidden file input we can fill directly
+      const fileInput = await selectors.resolve(this.page, "fileInput", {
+        state: "attached",
+      });
+      await fileInput.first().setInputFiles(files);
+
+      // Each upload shows a thumbnail once it has been attached
+      const thumbnails = await selectors.resolve(this.page, "fileThumbnail");
+      await thumbnails.nth(files.length - 1).waitFor({ state: "visible" });
+      timer.mark("upload");
+    }
+
+    log.info(`Sending message (${prompt.length} chars)...`);
+
+    const input = (await selectors.resolve(this.page, "input")).first();
+
+    await input.click();
+    await this.page.waitForTimeout(200);
+    await input.fill(prompt);
+
+    // Remember how many responses exist so we never read an old one
+    const before = await selectors.count(this.page, "response");
+
+    const sendButton = await selectors.resolve(this.page, "send");
+    throwIfAborted(options.signal);
+    await sendButton.first().click();
+    timer.mark("send");
+
+    log.info("Message sent, waiting for response...");
+
+    const page = this.page;
+    const newResponse = () => selectors.findNew(page, "response", before);
+    const generating = selectors.any(page, "generating");
+
+    // Wait for the new message to show up before watching it
+    await selectors.waitForNew(page, "response", before);
+
+    const isGenerating = async () => await generating.count() > 0;
+    const stream = await watchResponse({
+      site: "claude",
+      page,
+      isGenerating,
+      render: async () => {
+        const response = await newResponse();
+        if (!response) return null;
+        const html = await response.evaluate(readResponseHtml);
+        const markdown = toMarkdown(html);
+        // A limit notice must fail the request, not reach the client
+        if (mightBeLimitNotice(markdown, limitNotices)) return null;
+        return formatResponse(html, markdown, options.format);
+      },
+      onDelta: options.onDelta,
+      signal: options.signal,
+    });
+
+    if (options.signal?.aborted) {
+      log.info("Client disconnected, stopping generation...");
+      const stopButton = selectors.any(page, "stop").first();
+      await stopGeneration(page, stopButton, isGenerating);
+      throw new RequestAbortedError();
+    }
+    timer.mark("generate");
+
+    await page.waitForTimeout(500); // Extra breath for rendering
+
+    const lastResponse = await newResponse() ??
+      (await selectors.resolve(page, "response", { state: "attached" }))
+        .last();
+    const html = await lastResponse.evaluate(readResponseHtml);
+
+    const markdown = checkLimitNotice("claude", toMarkdown(html), limitNotices);
+    const responseText = formatResponse(html, markdown, options.format);
+    timer.mark("scrape");
+    stream.finish(responseText);
+    await recordFixture("claude", html, markdown);
+
+    log.info(
+      `✓ Response received (${responseText.length} chars)`,
+    );
+    return responseText;
+  }
+}
+
+registerAdapter({
+  metadata,
+  capabilities,
+  create: () => new ClaudeAdapter(),
+});
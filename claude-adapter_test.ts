@@ -0,0 +1,45 @@
+// claude-adapter_test.ts - Claude's converter on recorded response HTML
+import "./claude-adapter.ts";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import { getConverter } from "./fixtures.ts";
+
+const convert = getConverter("claude")!;
+
+const fixture = (name: string) =>
+  readFileSync(
+    new URL(`./fixtures/claude/${name}.html`, import.meta.url),
+    "utf8",
+  );
+
+Deno.test("code blocks become fences without their label and copy button", () => {
+  const markdown = convert(fixture("code-block"));
+  assert.match(
+    markdown,
+    /```rust\nfn word_count\(text: &str\) -> usize \{\n {4}text\.split_whitespace\(\)\.count\(\)\n\}\n```/,
+  );
+  // The second block has no language class, so its "text" label is dropped
+  assert.match(markdown, /```\n"a {2}b" -> 2\n```/);
+  assert.doesNotMatch(markdown, /^(rust|text)$/m);
+});
+
+Deno.test("text around code blocks is kept", () => {
+  const markdown = convert(fixture("code-block"));
+  assert.match(markdown, /Press the Run button in the playground/);
+  assert.match(markdown, /Here is the key point: `split_whitespace`/);
+  assert.match(markdown, /Important closing note: tabs and newlines/);
+});
+
+Deno.test("artifacts are reduced to their title", () => {
+  const markdown = convert(fixture("artifact"));
+  assert.match(markdown, /^> \*\*Artifact:\*\* Coffee shop landing page$/m);
+  assert.doesNotMatch(markdown, /Interactive artifact/);
+  assert.match(markdown, /It uses \*\*Tailwind\*\* only/);
+});
+
+Deno.test("a button outside a code block keeps its text", () => {
+  assert.equal(
+    convert("<p>Click the <button>Run</button> button</p>"),
+    "Click the Run button",
+  );
+});
@@ -0,0 +1,362 @@
+// config.ts - Server, browser and adapter settings
+//
+// Settings are layered: built-in defaults, then wollama.json (or the file
+// named by --config / WOLLAMA_CONFIG), then WOLLAMA_* environment variables,
+// then command-line flags. Each layer is validated on its own so errors name
+// where the bad value came from. Durations are in seconds, like the flags.
+import { existsSync, readFileSync } from "node:fs";
+import { homedir } from "node:os";
+import { join } from "node:path";
+import process from "node:process";
+import { LOG_LEVELS, Logger, type LogLevel } from "./logger.ts";
+
+const log = new Logger("Config");
+
+export interface WollamaConfig {
+  /** Interface to listen on; unset listens on all of them */
+  host?: string;
+  port: number;
+  /** Where wollama keeps persistent data such as named Chrome profiles */
+  dataDir: string;
+  /**
+   * Save every response's HTML and markdown here, for replaying through the
+   * converters (see fixtures.ts); unset records nothing
+   */
+  fixturesDir?: string;
+  chrome: {
+    /** Chrome binary to launch; unset searches the usual install locations */
+    path?: string;
+    /** Extra command-line flags for a Chrome we launch */
+    flags: string[];
+    /** Remote debugging port for adapters without one in adapters.cdpPorts */
+    cdpPort: number;
+    /**
+     * "temp" uses a throwaway profile, "default" your everyday Chrome profile;
+     * any other name is a persistent profile under dataDir/profiles
+     */
+    profile: string;
+    /** Launch Chrome without a window */
+    headless: boolean;
+  };
+  adapters: {
+    /** Models to serve; unset serves every registered adapter */
+    enabled?: string[];
+    /** Extra adapter modules to import */
+    modules: string[];
+    /** Remote debugging port per model, e.g. { "claude-browser": 9223 } */
+    cdpPorts: Record<string, number>;
+    /** Models to retry on when a model can't serve a request */
+    fallbacks: Record<string, string[]>;
+    /**
+     * Site root per model, replacing e.g. https://chatgpt.com; used to point
+     * adapters at the mock sites in scripts/mock-sites.ts
+     */
+    baseUrls: Record<string, string>;
+  };
+  queue: {
+    /** Tabs per model serving requests in parallel */
+    tabs: number;
+    /** Requests that may wait per model */
+    maxDepth: number;
+    /** Seconds a request may wait in the queue, 0 = forever */
+    timeout: number;
+  };
+  logging: {
+    /** Lowest level printed: "debug", "info", "warn", "error" or "silent" */
+    level: LogLevel;
+    /** One JSON object per line instead of "[Scope] message" text */
+    json: boolean;
+  };
+  /** Seconds per phase of a request, 0 = forever (see timeouts.ts) */
+  timeouts: {
+    ready: number;
+    send: number;
+    upload: number;
+    generate: number;
+  };
+}
+
+export type ConfigLayer = {
+  [K in keyof WollamaConfig]?: WollamaConfig[K] extends Record<string, unknown>
+    ? Partial<WollamaConfig[K]>
+    : WollamaConfig[K];
+};
+
+export const CONFIG_FILE = "wollama.json";
+
+// Per-platform location for data that should survive restarts
+function defaultDataDir(): string {
+  const home = homedir();
+  if (process.platform === "win32") {
+    return join(
+      process.env.LOCALAPPDATA ?? join(home, "AppData", "Local"),
+      "wollama",
+    );
+  }
+  if (process.platform === "darwin") {
+    return join(home, "Library", "Application Support", "wollama");
+  }
+  return join(
+    process.env.XDG_DATA_HOME ?? join(home, ".local", "share"),
+    "wollama",
+  );
+}
+
+const defaults: WollamaConfig = {
+  port: 11434,
+  dataDir: defaultDataDir(),
+  chrome: {
+    flags: [],
+    cdpPort: 9222,
+    profile: "temp",
+    headless: false,
+  },
+  adapters: {
+    modules: [],
+    cdpPorts: {},
+    fallbacks: {},
+    baseUrls: {},
+  },
+  queue: {
+    tabs: 1,
+    maxDepth: 16,
+    timeout: 300,
+  },
+  logging: {
+    level: "info",
+    json: false,
+  },
+  timeouts: {
+    ready: 120,
+    send: 30,
+    upload: 120,
+    generate: 600,
+  },
+};
+
+export class ConfigError extends Error {
+  constructor(source: string, message: string) {
+    super(`${source}: ${message}`);
+    this.name = "ConfigError";
+  }
+}
+
+// --- Validation ---
+
+// Returns a description of what was expected, or null if the value is fine
+type Check = (value: unknown) => string | null;
+interface Schema {
+  [key: string]: Check | Schema;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const string: Check = (v) => typeof v === "string" ? null : "a string";
+
+const integer = (min: number, max = Infinity): Check => (v) =>
+  Number.isInteger(v) && (v as number) >= min && (v as number) <= max
+    ? null
+    : max === Infinity
+    ? `an integer >= ${min}`
+    : `an integer between ${min} and ${max}`;
+
+const port = integer(1, 65535);
+
+const seconds: Check = (v) =>
+  typeof v === "number" && v >= 0 ? null : "a number of seconds >= 0";
+
+const oneOf = (...choices: string[]): Check => (v) =>
+  choices.includes(v as string)
+    ? null
+    : `one of ${choices.map((c) => `"${c}"`).join(", ")}`;
+
+const boolean: Check = (v) => typeof v === "boolean" ? null : "true or false";
+
+// Named profiles become directory names, so keep them to a safe alphabet
+const profile: Check = (v) =>
+  typeof v === "string" && /^[\w-][\w.-]*$/.test(v)
+    ? null
+    : `"temp", "default" or a profile name (letters, digits, ".", "_", "-")`;
+
+const httpUrl: Check = (v) =>
+  typeof v === "string" && URL.canParse(v) &&
+    /^https?:$/.test(new URL(v).protocol)
+    ? null
+    : "an http(s) URL";
+
+const stringArray: Check = (v) =>
+  Array.isArray(v) && v.every((s) => typeof s === "string")
+    ? null
+    : "an array of strings";
+
+const recordOf = (check: Check): Check => (v) => {
+  if (!isPlainObject(v)) return "an object";
+  for (const [key, item] of Object.entries(v)) {
+    const expected = check(item);
+    if (expected) return `an object whose "${key}" is ${expected}`;
+  }
+  return null;
+};
+
+const schema: Schema = {
+  host: string,
+  port,
+  dataDir: string,
+  fixturesDir: string,
+  chrome: {
+    path: string,
+    flags: stringArray,
+    cdpPort: port,
+    profile,
+    headless: boolean,
+  },
+  adapters: {
+    enabled: stringArray,
+    modules: stringArray,
+    cdpPorts: recordOf(port),
+    fallbacks: recordOf(stringArray),
+    baseUrls: recordOf(httpUrl),
+  },
+  queue: {
+    tabs: integer(1),
+    maxDepth: integer(0),
+    timeout: seconds,
+  },
+  logging: {
+    level: oneOf(...LOG_LEVELS),
+    json: boolean,
+  },
+  timeouts: {
+    ready: seconds,
+    send: seconds,
+    upload: seconds,
+    generate: seconds,
+  },
+};
+
+function validate(
+  value: Record<string, unknown>,
+  shape: Schema,
+  source: string,
+  prefix = "",
+) {
+  for (const [key, item] of Object.entries(value)) {
+    const path = prefix + key;
+    const rule = shape[key];
+    if (item === undefined) continue;
+    if (!rule) {
+      throw new ConfigError(source, `unknown setting "${path}"`);
+    }
+    if (typeof rule === "function") {
+      const expected = rule(item);
+      if (expected) {
+        throw new ConfigError(
+          source,
+          `"${path}" must be ${expected}, got ${JSON.stringify(item)}`,
+        );
+      }
+    } else if (!isPlainObject(item)) {
+      throw new ConfigError(source, `"${path}" must be an object`);
+    } else {
+      validate(item, rule, source, `${path}.`);
+    }
+  }
+}
+
+/** Checks a layer parsed from `source` (a file name, "environment", ...) */
+export function validateLayer(raw: unknown, source: string): ConfigLayer {
+  if (!isPlainObject(raw)) {
+    throw new ConfigError(source, "configuration must be a JSON object");
+  }
+  validate(raw, schema, source);
+  return raw as ConfigLayer;
+}
+
+// --- Layers ---
+
+function readConfigFile(path: string): ConfigLayer {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path, "utf8"));
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new ConfigError(path, `could not be read: ${reason}`);
+  }
+  return validateLayer(raw, path);
+}
+
+// Numeric strings become numbers; anything else is left for validation to
+// report with the original text
+export function parseNumber(text: string | undefined): unknown {
+  if (text === undefined) return undefined;
+  const number = Number(text);
+  return text.trim() !== "" && !Number.isNaN(number) ? number : text;
+}
+
+// "1"/"true" and "0"/"false"; anything else is left for validation to report
+function parseBoolean(text: string | undefined): unknown {
+  if (text === undefined) return undefined;
+  const value = text.trim().toLowerCase();
+  if (value === "1" || value === "true") return true;
+  if (value === "0" || value === "false") return false;
+  return text;
+}
+
+const splitList = (text: string | undefined, separator: RegExp) =>
+  text?.split(separator).map((s) => s.trim()).filter((s) => s);
+
+function envLayer(env: Record<string, string | undefined>): ConfigLayer {
+  return validateLayer({
+    host: env.WOLLAMA_HOST,
+    port: parseNumber(env.WOLLAMA_PORT),
+    dataDir: env.WOLLAMA_DATA_DIR,
+    fixturesDir: env.WOLLAMA_FIXTURES_DIR,
+    chrome: {
+      path: env.WOLLAMA_CHROME_PATH,
+      flags: splitList(env.WOLLAMA_CHROME_FLAGS, /\s+/),
+      cdpPort: parseNumber(env.WOLLAMA_CDP_PORT),
+      profile: env.WOLLAMA_PROFILE,
+      headless: parseBoolean(env.WOLLAMA_HEADLESS),
+    },
+    adapters: {
+      enabled: splitList(env.WOLLAMA_ADAPTERS, /,/),
+    },
+    logging: {
+      level: env.WOLLAMA_LOG_LEVEL,
+      json: parseBoolean(env.WOLLAMA_LOG_JSON),
+    },
+  }, "environment");
+}
+
+function merge<T>(base: T, layer: unknown): T {
+  if (!isPlainObject(base) || !isPlainObject(layer)) {
+    return layer === undefined ? base : layer as T;
+  }
+  const result: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(layer)) {
+    if (value !== undefined) result[key] = merge(result[key], value);
+  }
+  return result as T;
+}
+
+/**
+ * Builds the effective configuration. `configPath` comes from --config; without
+ * it WOLLAMA_CONFIG or ./wollama.json is used when present. `cli` holds the
+ * command-line overrides, already validated with validateLayer().
+ */
+export function loadConfig(
+  configPath?: string,
+  cli: ConfigLayer = {},
+): WollamaConfig {
+  const path = configPath ?? process.env.WOLLAMA_CONFIG ??
+    (existsSync(CONFIG_FILE) ? CONFIG_FILE : undefined);
+
+  let config = defaults;
+  if (path) {
+    log.info(`Loading ${path}`);
+    config = merge(config, readConfigFile(path));
+  }
+  config = merge(config, envLayer(process.env));
+  return merge(config, cli);
+}
@@ -0,0 +1,149 @@
+// conversations.ts - Map chat histories onto browser chat threads
+//
+// Chat APIs resend the whole history on every turn. Instead of pasting it
+// into the same tab again, we remember which browser thread holds each
+// history (keyed by a hash of its messages, or by an explicit session id) and
+// only type the new user turn when a request continues a known history. An
+// edited or unknown history starts a fresh chat with the full prompt.
+import type { BrowserChatAdapter, SendMessageOptions } from "./adapter.ts";
+import { withAttachments } from "./attachments.ts";
+import { buildChatPrompt, type ChatMessage } from "./prompt.ts";
+import { createHash } from "node:crypto";
+import { Logger } from "./logger.ts";
+
+const log = new Logger("Conversation");
+
+const MAX_THREADS = 500;
+
+function hashMessages(model: string, messages: ChatMessage[]): string {
+  const hash = createHash("sha256");
+  hash.update(model);
+  for (const msg of messages) {
+    // Clients may re-serialize whitespace around what we returned
+    hash.update(`\0${msg.role}\0${msg.content.trim()}`);
+  }
+  return hash.digest("hex");
+}
+
+interface Session {
+  url: string;
+  historyHash: string;
+}
+
+export class ConversationStore {
+  // Insertion ordered, so the first key is the least recently used
+  private threads = new Map<string, string>();
+  private sessions = new Map<string, Session>();
+
+  /**
+   * Returns the thread URL whose conversation is exactly `history`, once: the
+   * caller continues the thread and saves it under its new history
+   */
+  find(
+    model: string,
+    history: ChatMessage[],
+    sessionId?: string,
+  ): string | null {
+    const historyHash = hashMessages(model, history);
+
+    if (sessionId) {
+      const session = this.sessions.get(`${model}\0${sessionId}`);
+      return session?.historyHash === historyHash ? session.url : null;
+    }
+
+    // The thread is about to move past this history, so drop its key: an
+    // edited or regenerated last turn resends the same prefix and must start
+    // a fresh chat, not land in a thread that already holds the old turn
+    const url = this.threads.get(historyHash);
+    if (!url) return null;
+    this.threads.delete(historyHash);
+    return url;
+  }
+
+  save(
+    model: string,
+    history: ChatMessage[],
+    url: string,
+    sessionId?: string,
+  ) {
+    const historyHash = hashMessages(model, history);
+
+    if (sessionId) {
+      this.sessions.set(`${model}\0${sessionId}`, { url, historyHash });
+      return;
+    }
+
+    this.threads.delete(historyHash);
+    this.threads.set(historyHash, url);
+    if (this.threads.size > MAX_THREADS) {
+      const oldest = this.threads.keys().next().value;
+      if (oldest !== undefined) this.threads.delete(oldest);
+    }
+  }
+}
+
+export const conversations = new ConversationStore();
+
+export interface ChatOptions extends SendMessageOptions {
+  /** Explicit conversation id; takes precedence over history matching */
+  sessionId?: string;
+}
+
+// Sends a chat request through the adapter, continuing the matching browser
+// thread when possible. Resolves with the assistant's reply.
+export async function sendChat(
+  adapter: BrowserChatAdapter,
+  messages: ChatMessage[],
+  options: ChatOptions = {},
+): Promise<string> {
+  const { sessionId, ...sendOptions } = options;
+  const model = adapter.metadata.name;
+
+  if (!adapter.openConversation || !adapter.getConversationUrl) {
+    return withAttachments(
+      adapter,
+      messages,
+      (files) =>
+        adapter.sendMessage(buildChatPrompt(messages), files, sendOptions),
+    );
+  }
+
+  const last = messages[messages.length - 1];
+  const history = messages.slice(0, -1);
+  const threadUrl = last?.role === "user"
+    ? conversations.find(model, history, sessionId)
+    : null;
+
+  // Earlier turns' images are already in a continued thread; a fresh chat
+  // gets every message's attachments along with the flattened history
+  let prompt: string;
+  let uploads: ChatMessage[];
+  if (threadUrl) {
+    log.info(`Continuing thread ${threadUrl}`);
+    await adapter.openConversation(threadUrl);
+    prompt = last.content;
+    uploads = [last];
+  } else {
+    await adapter.openConversation(null);
+    prompt = buildChatPrompt(messages);
+    uploads = messages;
+  }
+
+  const response = await withAttachments(
+    adapter,
+    uploads,
+    (files) => adapter.sendMessage(prompt, files, sendOptions),
+  );
+
+  const url = adapter.getConversationUrl();
+  if (url) {
+    conversations.save(
+      model,
+      [...messages, { role: "assistant", content: response }],
+      url,
+      sessionId,
+    );
+  }
+
+  return response;
+}
@@ -0,0 +1,79 @@
+// conversations_test.ts - Which browser thread a chat request continues
+import assert from "node:assert/strict";
+import type { BrowserChatAdapter } from "./adapter.ts";
+import { sendChat } from "./conversations.ts";
+import type { ChatMessage } from "./prompt.ts";
+import { configureLogging } from "./logger.ts";
+
+configureLogging({ level: "silent" });
+
+// Keeps the prompts each thread received and answers "a<n>" to the n-th
+interface FakeSite extends BrowserChatAdapter {
+  threads: Map<string, string[]>;
+}
+
+function fakeSite(name: string): FakeSite {
+  const threads = new Map<string, string[]>();
+  let current: string | null = null;
+  let answers = 0;
+  return {
+    threads,
+    metadata: { name, family: "test", license: "N/A", site: "x" },
+    capabilities: { fileUpload: false },
+    ensureReady: () => Promise.resolve(),
+    isSignedIn: () => Promise.resolve(true),
+    openConversation: (url) => {
+      current = url ?? `t${threads.size + 1}`;
+      if (!threads.has(current)) threads.set(current, []);
+      return Promise.resolve();
+    },
+    getConversationUrl: () => current,
+    sendMessage: (prompt) => {
+      threads.get(current!)!.push(prompt);
+      return Promise.resolve(`a${++answers}`);
+    },
+    getTabStatus: () => ({ ready: true, url: current }),
+    resetTab: () => Promise.resolve(),
+    close: () => Promise.resolve(),
+  };
+}
+
+const user = (content: string): ChatMessage => ({ role: "user", content });
+const assistant = (content: string): ChatMessage => ({
+  role: "assistant",
+  content,
+});
+
+Deno.test("the next turn continues the thread with only the new message", async () => {
+  const site = fakeSite("conversations-continue");
+  await sendChat(site, [user("hi")]);
+  await sendChat(site, [user("hi"), assistant("a1"), user("what is 2+2")]);
+  assert.deepEqual([...site.threads.keys()], ["t1"]);
+  assert.equal(site.threads.get("t1")![1], "what is 2+2");
+});
+
+Deno.test("an edited last turn starts a fresh chat", async () => {
+  const site = fakeSite("conversations-edit");
+  await sendChat(site, [user("hi")]);
+  await sendChat(site, [user("hi"), assistant("a1"), user("what is 2+2")]);
+  // Same history before the last turn, but the client replaced that turn
+  await sendChat(site, [user("hi"), assistant("a1"), user("what is 3+3")]);
+  assert.deepEqual(site.threads.get("t1"), ["hi", "what is 2+2"]);
+  assert.equal(site.threads.size, 2);
+  assert.match(site.threads.get("t2")![0], /what is 3\+3/);
+});
+
+Deno.test("a fresh chat can be continued in turn", async () => {
+  const site = fakeSite("conversations-after-edit");
+  await sendChat(site, [user("hi")]);
+  await sendChat(site, [user("hi"), assistant("a1"), user("x")]);
+  await sendChat(site, [user("hi"), assistant("a1"), user("y")]);
+  await sendChat(site, [
+    user("hi"),
+    assistant("a1"),
+    user("y"),
+    assistant("a3"),
+    user("z"),
+  ]);
+  assert.deepEqual(site.threads.get("t2")!.slice(1), ["z"]);
+});
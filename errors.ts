@@ -0,0 +1,147 @@
+// errors.ts - Errors that carry the HTTP status reported to API clients
+import type { Phase } from "./timeouts.ts";
+
+export class WollamaError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    options?: ErrorOptions,
+  ) {
+    super(message, options);
+    this.name = new.target.name;
+  }
+}
+
+export class QueueFullError extends WollamaError {
+  constructor(model: string, depth: number) {
+    super(`Queue for ${model} is full (${depth} requests waiting)`, 429);
+  }
+}
+
+export class QueueTimeoutError extends WollamaError {
+  constructor(model: string, timeoutMs: number) {
+    super(`Timed out after ${timeoutMs}ms waiting in queue for ${model}`, 503);
+  }
+}
+
+export class QueueClosedError extends WollamaError {
+  constructor(model: string) {
+    super(`Adapter ${model} is shutting down`, 503);
+  }
+}
+
+export class SelectorNotFoundError extends WollamaError {
+  constructor(
+    readonly site: string,
+    readonly element: string,
+    readonly candidates: string[],
+    timeoutMs: number,
+  ) {
+    super(
+      `${site}: selector "${element}" broken, none of ` +
+        `[${candidates.join(" | ")}] matched within ${timeoutMs}ms`,
+      502,
+    );
+  }
+}
+
+export class SignInRequiredError extends WollamaError {
+  constructor(site: string) {
+    super(`${site}: signed out, log in again in the browser`, 401);
+  }
+}
+
+export class CaptchaDetectedError extends WollamaError {
+  constructor(site: string) {
+    super(`${site}: captcha shown, solve it in the browser and retry`, 403);
+  }
+}
+
+export class QuotaExceededError extends WollamaError {
+  constructor(readonly site: string, readonly notice?: string) {
+    super(
+      `${site}: usage limit reached, retry later` +
+        (notice ? ` (${notice})` : ""),
+      429,
+    );
+  }
+}
+
+export class ResponseTimeoutError extends WollamaError {
+  constructor(
+    site: string,
+    readonly phase: Phase,
+    timeoutMs: number,
+    options?: ErrorOptions,
+  ) {
+    super(
+      `${site}: ${phase} phase timed out after ${timeoutMs}ms`,
+      504,
+      options,
+    );
+  }
+}
+
+export class BrowserDisconnectedError extends WollamaError {
+  constructor(detail: string, options?: ErrorOptions) {
+    super(`Browser unavailable: ${detail}`, 503, options);
+  }
+}
+
+export class VariantUnavailableError extends WollamaError {
+  constructor(site: string, variant: string) {
+    super(
+      `${site}: model "${variant}" is not offered in the model picker`,
+      404,
+    );
+  }
+}
+
+export class InvalidAttachmentError extends WollamaError {
+  constructor(message: string) {
+    super(message, 400);
+  }
+}
+
+export class AttachmentsNotSupportedError extends WollamaError {
+  constructor(model: string) {
+    super(`Model ${model} does not support images or attachments`, 400);
+  }
+}
+
+export class InvalidRequestError extends WollamaError {
+  constructor(message: string) {
+    super(message, 400);
+  }
+}
+
+export class UnsupportedFormatError extends WollamaError {
+  constructor(format: string, formats: string[]) {
+    super(
+      `Unknown output_format "${format}", expected one of ${
+        formats.join(", ")
+      }`,
+      400,
+    );
+  }
+}
+
+export class UploadTimeoutError extends WollamaError {
+  constructor(site: string, count: number, timeoutMs: number) {
+    super(
+      `${site}: ${count} upload(s) did not finish processing within ${timeoutMs}ms`,
+      504,
+    );
+  }
+}
+
+export class RequestAbortedError extends WollamaError {
+  constructor() {
+    // 499: nginx's "client closed request", never actually sent to the client
+    super("Request cancelled by client", 499);
+  }
+}
+
+export function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) throw new RequestAbortedError();
+}
@@ -0,0 +1,100 @@
+// fixtures.ts - Opt-in recording of response HTML for converter regression tests
+//
+// Turning a site's response DOM into markdown is where output quality breaks:
+// sites change their markup, and converter rules change with it. When a
+// fixtures directory is configured, every answer's raw HTML and the markdown
+// it became are saved side by side as <site>/<name>.html and .md. The fixtures
+// kept in the repository's fixtures/ directory are replayed by `deno test`
+// (fixtures_test.ts), and scripts/replay-fixtures.ts replays any directory,
+// diffing the current converters' output against the saved markdown.
+import { existsSync, readdirSync, readFileSync } from "node:fs";
+import { mkdir, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { currentRequestId, Logger, newRequestId } from "./logger.ts";
+
+const log = new Logger("Fixtures");
+
+/** Response HTML -> markdown, as an adapter converts it */
+export type Converter = (html: string) => string;
+
+// Site -> converter, registered by the adapter modules on import
+const converters = new Map<string, Converter>();
+
+/** Makes a site's converter available for replaying its recorded fixtures */
+export function registerConverter(site: string, convert: Converter) {
+  converters.set(site, convert);
+}
+
+export function getConverter(site: string): Converter | null {
+  return converters.get(site) ?? null;
+}
+
+let fixturesDir: string | null = null;
+
+/** Starts saving responses to `dir`; null turns recording off */
+export function configureFixtures(dir: string | null) {
+  fixturesDir = dir;
+}
+
+/**
+ * Saves a response's HTML and its markdown if recording is on. Never throws:
+ * a full disk must not fail the request being answered.
+ */
+export async function recordFixture(
+  site: string,
+  html: string,
+  markdown: string,
+) {
+  if (!fixturesDir) return;
+
+  const stamp = new Date().toISOString().replace(/[:.]/g, "-");
+  const name = `${stamp}-${currentRequestId() ?? newRequestId()}`;
+  const dir = join(fixturesDir, site);
+  try {
+    await mkdir(dir, { recursive: true });
+    await writeFile(join(dir, `${name}.html`), html);
+    await writeFile(join(dir, `${name}.md`), markdown);
+    log.debug(`Recorded ${join(dir, name)}`);
+  } catch (error) {
+    log.warn(`Could not record fixture in ${dir}`, { error });
+  }
+}
+
+export interface SavedFixture {
+  site: string;
+  /** "<site>/<file name without extension>" */
+  name: string;
+  html: string;
+  /** Recorded markdown, null if only the HTML was kept */
+  markdown: string | null;
+  markdownPath: string;
+}
+
+/** Every fixture saved under `dir`, grouped by site in file name order */
+export function readFixtures(dir: string): SavedFixture[] {
+  const fixtures: SavedFixture[] = [];
+  const sites = readdirSync(dir, { withFileTypes: true })
+    .filter((entry) => entry.isDirectory())
+    .map((entry) => entry.name)
+    .sort();
+
+  for (const site of sites) {
+    const htmlFiles = readdirSync(join(dir, site))
+      .filter((file) => file.endsWith(".html"))
+      .sort();
+    for (const file of htmlFiles) {
+      const base = file.slice(0, -".html".length);
+      const markdownPath = join(dir, site, `${base}.md`);
+      fixtures.push({
+        site,
+        name: `${site}/${base}`,
+        html: readFileSync(join(dir, site, file), "utf8"),
+        markdown: existsSync(markdownPath)
+          ? readFileSync(markdownPath, "utf8")
+          : null,
+        markdownPath,
+      });
+    }
+  }
+  return fixtures;
+}
@@ -0,0 +1,31 @@
+// fixtures_test.ts - Replays the committed fixtures through the converters
+//
+// Each fixtures/<site>/<name>.html must still convert to the markdown saved
+// next to it. After an intended converter change, accept the new output with
+// `deno run -A scripts/replay-fixtures.ts --update` and review the diff.
+import "./gemini-adapter.ts";
+import "./chatgpt-adapter.ts";
+import "./claude-adapter.ts";
+import "./lechat-adapter.ts";
+import assert from "node:assert/strict";
+import { fileURLToPath } from "node:url";
+import { getConverter, readFixtures } from "./fixtures.ts";
+
+const dir = fileURLToPath(new URL("./fixtures", import.meta.url));
+const fixtures = readFixtures(dir);
+
+Deno.test("every site has fixtures", () => {
+  const sites = new Set(fixtures.map((fixture) => fixture.site));
+  for (const site of ["gemini", "chatgpt", "claude", "lechat"]) {
+    assert.ok(sites.has(site), `no fixtures for ${site}`);
+  }
+});
+
+for (const fixture of fixtures) {
+  Deno.test(`fixture ${fixture.name}`, () => {
+    const convert = getConverter(fixture.site);
+    assert.ok(convert, `no converter registered for ${fixture.site}`);
+    assert.notEqual(fixture.markdown, null, "no recorded markdown");
+    assert.equal(convert(fixture.html), fixture.markdown);
+  });
+}
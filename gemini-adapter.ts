@@ -1,19 +1,81 @@
 // gemini-adapter.ts - Playwright automation for Google Gemini
-import { Browser, BrowserContext, Page } from "npm:playwright@1.56.1";
 import {
-  closeBrowser,
-  ensureBrowser,
-  setUseDefaultProfile,
-} from "./browser.ts";
-import TurndownService from "npm:turndown@7.2.2";
-
-// Initialize Turndown with fenced code blocks
-const turndown = new TurndownService({
-  codeBlockStyle: "fenced",
-  headingStyle: "atx",
-  bulletListMarker: "-",
+  type AdapterCapabilities,
+  type AdapterMetadata,
+  registerAdapter,
+  type SendMessageOptions,
+} from "./adapter.ts";
+import { stopGeneration, watchResponse } from "./streaming.ts";
+import { SelectorSet } from "./selectors.ts";
+import { SiteAdapter } from "./site-adapter.ts";
+import { PhaseTimer } from "./metrics.ts";
+import { checkLimitNotice, mightBeLimitNotice } from "./limits.ts";
+import { recordFixture, registerConverter } from "./fixtures.ts";
+import { createConverter, formatResponse } from "./markdown.ts";
+import { selectVariant } from "./model-picker.ts";
+import { RequestAbortedError, throwIfAborted } from "./errors.ts";
+import { Logger } from "./logger.ts";
+
+const log = new Logger("Gemini");
+
+// Candidate selectors per UI element, most specific first
+const selectors = new SelectorSet("gemini", {
+  input: [
+    'div[role="textbox"][aria-label*="Enter a prompt"]',
+    'rich-textarea div[contenteditable="true"]',
+    'div.ql-editor[contenteditable="true"]',
+  ],
+  send: [
+    'button[aria-label*="Send message"]',
+    "button.send-button",
+    'button:has(mat-icon[fonticon="send"])',
+  ],
+  stop: [
+    'button[aria-label*="Stop"]',
+    'button:has(mat-icon[fonticon="stop"])',
+  ],
+  response: [
+    ".model-response-text",
+    "message-content",
+  ],
+  uploadMenu: [
+    'button[aria-label="Open upload file menu"]',
+    'button[aria-label*="upload file menu"]',
+    "uploader button",
+  ],
+  uploadButton: [
+    'button[data-test-id="local-images-files-uploader-button"]',
+    'button[aria-label*="Upload files"]',
+  ],
+  modelPicker: [
+    'button[data-test-id="bard-mode-menu-button"]',
+    "bard-mode-switcher button",
+  ],
+  modelOption: [
+    'button[data-test-id^="bard-mode-option"]',
+    '[role="menuitemradio"]',
+    '[role="menuitem"]',
+  ],
+  // Pages shown instead of the chat, see SelectorSet.checkBlocked()
+  signIn: [
+    "a[href*='accounts.google.com/ServiceLogin']",
+    "a[href*='accounts.google.com/signin']",
+    "[aria-label='Sign in']",
+  ],
+  captcha: [
+    'iframe[src*="recaptcha"]',
+    "form#captcha-form",
+  ],
+  // Notices and banners only; a chat thread may quote the same words
+  quota: [
+    'mat-snack-bar-container:text-matches("reached your (daily )?limit", "i")',
+    '[role="alert"]:text-matches("reached your (daily )?limit", "i")',
+  ],
 });
 
+// Shared rules from markdown.ts, with Gemini's code blocks and source chips on top
+const turndown = createConverter();
+
 // Custom rule for Gemini's <code-block> elements
 turndown.addRule("geminiCodeBlock", {
   // deno-lint-ignore no-explicit-any
@@ -41,167 +103,196 @@ turndown.addRule("responseElement", {
   replacement: (content: any) => content,
 });
 
-export class GeminiAdapter {
-  private browser: Browser | null = null;
-  private context: BrowserContext | null = null;
-  private page: Page | null = null;
-  private isReady = false;
-
-  async ensureReady(
-    options: {
-      port?: number;
-      newTab?: boolean;
-      defaultProfile?: boolean;
-      ensureSignedIn?: boolean;
-    } = {},
-  ) {
-    if (this.isReady && this.page) return;
-
-    if (options.defaultProfile !== undefined) {
-      setUseDefaultProfile(options.defaultProfile);
-    }
-
-    const port = options.port || 9222;
-    this.browser = await ensureBrowser(port);
-
-    const contexts = this.browser.contexts();
-    if (contexts.length === 0) throw new Error("No browser context found");
-    this.context = contexts[0];
-
-    const pages = this.context.pages();
-    const geminiPage = options.newTab
-      ? null
-      : pages.find((p) => p.url().includes("gemini.google.com"));
+// Source chips and footnote markers: keep the links they point to, drop the
+// favicons and "+2" counters around them
+const sourceElements = [
+  "source-footnote",
+  "source-inline-chip",
+  "sources-carousel-inline",
+];
 
-    if (geminiPage) {
-      console.log("[Gemini] Found existing Gemini tab.");
-      this.page = geminiPage;
-    } else {
-      console.log("[Gemini] Opening new Gemini tab...");
-      this.page = await this.context.newPage();
-    }
-
-    this.page.setDefaultTimeout(0);
-
-    if (!this.page.url().includes("gemini.google.com/app")) {
-      console.log("[Gemini] Navigating to gemini.google.com...");
-      await this.page.goto("https://gemini.google.com/app", {
-        waitUntil: "domcontentloaded",
+turndown.addRule("geminiSources", {
+  // deno-lint-ignore no-explicit-any
+  filter: (node: any) => sourceElements.includes(node.nodeName.toLowerCase()),
+  // deno-lint-ignore no-explicit-any
+  replacement: (_content: any, node: any) => {
+    // deno-lint-ignore no-explicit-any
+    const links = Array.from(node.querySelectorAll("a[href]") as any[])
+      .filter((a) => /^https?:/.test(a.getAttribute("href")))
+      .map((a) => {
+        const title = a.getAttribute("aria-label")?.trim() ||
+          a.textContent.replace(/\s*\+\d+\s*$/, "").trim() ||
+          a.getAttribute("href");
+        return `[${title}](${a.getAttribute("href")})`;
       });
-    }
-
-    if (options.ensureSignedIn) {
-      try {
-        const signInButton = this.page.locator(
-          "a[href*='accounts.google.com/ServiceLogin'], a[href*='accounts.google.com/signin'], [aria-label='Sign in']",
-        ).first();
-        // Short timeout to check for visibility without waiting too long
-        await signInButton.waitFor({ state: "visible", timeout: 2000 });
-        throw new Error("Sign in required (detected sign-in button).");
-      } catch (e) {
-        if (e instanceof Error && e.message.includes("Sign in required")) {
-          throw e;
-        }
-        // If timeout occurs, it means sign in button wasn't found, which is good.
-      }
-    }
-
-    console.log("[Gemini] Waiting for chat interface...");
-    await this.page.waitForSelector(
-      'div[role="textbox"][aria-label*="Enter a prompt"]',
-      { timeout: 0, state: "visible" },
-    );
+    // Inline markers follow a word; a chip row starts a line of its own
+    const separator = node.previousSibling ? " " : "";
+    return links.length > 0 ? separator + links.join(" ") : "";
+  },
+});
 
-    console.log("[Gemini] ✓ Connected and Ready!\n");
-    this.isReady = true;
+// Runs in the page: prefer the rendered markdown container when present
+// deno-lint-ignore no-explicit-any
+const readResponseHtml = (el: any): string => {
+  const markdown = el.querySelector(".markdown");
+  return markdown?.innerHTML || el.innerHTML;
+};
+
+// Usage-limit notices the site posts as a reply instead of an answer
+const limitNotices = [
+  /^you(['’]ve| have) reached your (daily )?limit/i,
+  /^your (daily )?limit for .+ resets/i,
+];
+
+const toMarkdown = (html: string): string => turndown.turndown(html);
+
+registerConverter("gemini", toMarkdown);
+
+// Variant tags (e.g. "gemini-browser:pro") and their model picker entries
+const modelPicker = {
+  selectors,
+  trigger: "modelPicker",
+  option: "modelOption",
+  labels: {
+    flash: /Flash|Fast/i,
+    pro: /\bPro\b/,
+    thinking: /Thinking/i,
+  },
+} as const;
+
+const metadata: AdapterMetadata = {
+  name: "gemini-browser",
+  family: "gemini",
+  license: "Google",
+  site: "gemini.google.com",
+  variants: Object.keys(modelPicker.labels),
+};
+
+const capabilities: AdapterCapabilities = {
+  fileUpload: true,
+};
+
+export class GeminiAdapter extends SiteAdapter {
+  readonly metadata = metadata;
+  readonly capabilities = capabilities;
+
+  constructor() {
+    super(selectors, log, {
+      root: "https://gemini.google.com",
+      newChat: "/app",
+      chat: "/app",
+    });
   }
 
-  async sendMessage(prompt: string, files: string[] = []): Promise<string> {
+  async sendMessage(
+    prompt: string,
+    files: string[] = [],
+    options: SendMessageOptions = {},
+  ): Promise<string> {
     if (!this.page) throw new Error("Browser not initialized");
+    const timer = new PhaseTimer(metadata.name);
+
+    if (options.variant) {
+      await selectVariant(this.page, modelPicker, options.variant);
+    }
 
     if (files.length > 0) {
-      console.log(`[Gemini] Uploading ${files.length} files...`);
+      log.info(`Uploading ${files.length} files...`);
 
       // 1. Click the plus button to open the menu
-      const plusButton = this.page.locator(
-        'button[aria-label="Open upload file menu"]',
-      );
-      await plusButton.click();
+      const plusButton = await selectors.resolve(this.page, "uploadMenu");
+      await plusButton.first().click();
 
       // 2. Wait for the menu to appear and finding the upload button
-      // Using the user-provided test-id for precision
-      const uploadButton = this.page.locator(
-        'button[data-test-id="local-images-files-uploader-button"]',
-      );
-      await uploadButton.waitFor({ state: "visible" });
+      const uploadButton = await selectors.resolve(this.page, "uploadButton");
 
       // 3. Prepare for file chooser and click the upload button
       const fileChooserPromise = this.page.waitForEvent("filechooser");
-      await uploadButton.click();
+      await uploadButton.first().click();
       const fileChooser = await fileChooserPromise;
 
       // 4. Set the files
       await fileChooser.setFiles(files);
 
       await this.page.waitForTimeout(5000); // Wait for upload to process (increased to 5s)
+      timer.mark("upload");
     }
 
-    console.log(`[Gemini] Sending message (${prompt.length} chars)...`);
+    log.info(`Sending message (${prompt.length} chars)...`);
 
-    const inputSelector = 'div[role="textbox"][aria-label*="Enter a prompt"]';
-    const input = await this.page.waitForSelector(inputSelector);
-
-    if (!input) throw new Error("Could not find input field");
+    const input = (await selectors.resolve(this.page, "input")).first();
 
     await input.click();
     await this.page.waitForTimeout(300);
     await input.fill(prompt);
     await this.page.waitForTimeout(500);
 
-    const sendButton = this.page.locator('button[aria-label*="Send message"]')
-      .first();
-    await sendButton.click();
+    // Remember how many responses exist so we never read an old one
+    const before = await selectors.count(this.page, "response");
+
+    const sendButton = await selectors.resolve(this.page, "send");
+    throwIfAborted(options.signal);
+    await sendButton.first().click();
+    timer.mark("send");
 
-    console.log("[Gemini] Message sent, waiting for response...");
+    log.info("Message sent, waiting for response...");
     await this.page.waitForTimeout(2000);
 
-    try {
-      const stopButton = this.page.locator('button[aria-label*="Stop"]');
-      if (await stopButton.isVisible()) {
-        await stopButton.waitFor({ state: "hidden", timeout: 0 });
-      }
-    } catch {
-      // Ignore if stop button detection is flaky
+    const page = this.page;
+    const stopButton = selectors.any(page, "stop").first();
+    const isGenerating = () => stopButton.isVisible();
+
+    const stream = await watchResponse({
+      site: "gemini",
+      page,
+      isGenerating,
+      render: async () => {
+        const response = await selectors.findNew(page, "response", before);
+        if (!response) return null;
+        const html = await response.evaluate(readResponseHtml);
+        const markdown = toMarkdown(html);
+        // A limit notice must fail the request, not reach the client
+        if (mightBeLimitNotice(markdown, limitNotices)) return null;
+        return formatResponse(html, markdown, options.format);
+      },
+      onDelta: options.onDelta,
+      signal: options.signal,
+    });
+
+    if (options.signal?.aborted) {
+      log.info("Client disconnected, stopping generation...");
+      await stopGeneration(page, stopButton, isGenerating);
+      throw new RequestAbortedError();
     }
+    timer.mark("generate");
 
     await this.page.waitForTimeout(1000);
 
-    const responses = await this.page.locator(".model-response-text").all();
-    if (responses.length === 0) {
-      throw new Error("No response found (check browser for captcha/errors)");
-    }
-
-    const lastResponse = responses[responses.length - 1];
+    const newResponse = await selectors.findNew(this.page, "response", before);
+    // No new message usually means a limit notice or captcha came up instead
+    if (!newResponse) await selectors.checkBlocked(this.page);
+    const lastResponse = newResponse ??
+      (await selectors.resolve(this.page, "response", { state: "attached" }))
+        .last();
 
     // Get the HTML and convert to markdown
-    // deno-lint-ignore no-explicit-any
-    const html = await lastResponse.evaluate((el: any) => {
-      const markdown = el.querySelector(".markdown");
-      return markdown?.innerHTML || el.innerHTML;
-    });
+    const html = await lastResponse.evaluate(readResponseHtml);
 
-    const responseText = turndown.turndown(html);
+    const markdown = checkLimitNotice("gemini", toMarkdown(html), limitNotices);
+    const responseText = formatResponse(html, markdown, options.format);
+    timer.mark("scrape");
+    stream.finish(responseText);
+    await recordFixture("gemini", html, markdown);
 
-    console.log(
-      `[Gemini] ✓ Response received (${responseText.length} chars)\n`,
+    log.info(
+      `✓ Response received (${responseText.length} chars)`,
     );
     return responseText;
   }
-
-  async close() {
-    console.log("[Gemini] Disconnecting adapter...");
-    await closeBrowser(this.browser);
-    this.browser = null;
-    this.isReady = false;
-  }
 }
+
+registerAdapter({
+  metadata,
+  capabilities,
+  create: () => new GeminiAdapter(),
+});
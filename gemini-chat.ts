@@ -2,6 +2,9 @@ import { GeminiAdapter } from "./gemini-adapter.ts";
 import { parseArgs } from "node:util";
 import { resolve } from "node:path";
 import process from "node:process";
+import { configureLogging, Logger } from "./logger.ts";
+
+const log = new Logger("Chat");
 
 const { values, positionals } = parseArgs({
   args: process.argv.slice(2),
@@ -23,6 +26,10 @@ const { values, positionals } = parseArgs({
       type: "boolean",
       short: "q",
     },
+    verbose: {
+      type: "boolean",
+      short: "v",
+    },
     port: {
       type: "string",
     },
@@ -44,9 +51,10 @@ const { values, positionals } = parseArgs({
   allowPositionals: true,
 });
 
-if (values.quiet) {
-  console.log = () => {};
-}
+// Quiet keeps stdout for the response alone; warnings still go to stderr
+configureLogging({
+  level: values.quiet ? "warn" : values.verbose ? "debug" : "info",
+});
 
 if (values.help) {
   process.stdout.write(`
@@ -61,6 +69,7 @@ Options:
   -p, --prompt <text>   The prompt to send (default: "Hello")
   -f, --file <path>     File(s) to upload (can be used multiple times)
   -q, --quiet           Only output the model response
+  -v, --verbose         Also print debug messages
   -n, --new-tab         Open a new tab instead of reusing an existing one
   -k, --keep-alive      Keep the browser open after the chat is done
   --default-profile     Use the default Chrome profile instead of a temporary one
@@ -95,9 +104,9 @@ files.push(...positionals.slice(startPos));
 // Resolve paths
 const absFiles = files.map((f) => resolve(process.cwd(), f));
 
-console.log(`Prompt: "${prompt}"`);
+log.info(`Prompt: "${prompt}"`);
 if (absFiles.length > 0) {
-  console.log(`Files: ${absFiles.join(", ")}`);
+  log.info(`Files: ${absFiles.join(", ")}`);
 }
 
 const adapter = new GeminiAdapter();
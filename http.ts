@@ -0,0 +1,80 @@
+// http.ts - Shared request/response helpers for the API server
+import { IncomingMessage, ServerResponse } from "node:http";
+import type { RouteOptions } from "./routing.ts";
+import { requestDuration, requestsTotal } from "./metrics.ts";
+
+export function parseBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    // deno-lint-ignore no-explicit-any
+    req.on("data", (chunk: any) => (body += chunk));
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+}
+
+export function sendJson(res: ServerResponse, data: object, status = 200) {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+  });
+  res.end(JSON.stringify(data));
+}
+
+// Clients can pin a chat to a browser thread with the X-Session-Id header
+export function sessionHeader(req: IncomingMessage): string | undefined {
+  const value = req.headers["x-session-id"];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+// Clients may supply their own correlation ID; anything that doesn't look like
+// one is ignored so it can't garble the logs
+export function requestIdHeader(req: IncomingMessage): string | undefined {
+  const value = req.headers["x-request-id"];
+  const id = Array.isArray(value) ? value[0] : value;
+  return id && /^[\w.:-]{1,64}$/.test(id) ? id : undefined;
+}
+
+// Aborts when the client goes away before we finished responding. The
+// request's own "close" fires as soon as its body has been read, so the
+// response's is the one that tracks the connection.
+export function disconnectSignal(res: ServerResponse): AbortSignal {
+  const controller = new AbortController();
+  res.on("close", () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  return controller.signal;
+}
+
+// Counts the request and its latency once the response is over. A client that
+// hung up first is recorded with nginx's 499.
+export function trackRequest(
+  res: ServerResponse,
+  endpoint: string,
+  model: string,
+) {
+  const start = performance.now();
+  res.on("close", () => {
+    const status = res.writableFinished ? res.statusCode : 499;
+    requestsTotal.inc({ model, endpoint, status: String(status) });
+    requestDuration.observe(
+      { model, endpoint },
+      (performance.now() - start) / 1000,
+    );
+  });
+}
+
+// Reports the model that actually answered in a response header. Once headers
+// are out a response has started streaming, so it can't move to a fallback.
+export function routeOptions(
+  res: ServerResponse,
+  signal?: AbortSignal,
+): RouteOptions {
+  return {
+    signal,
+    onAttempt: (model) => {
+      if (!res.headersSent) res.setHeader("X-Wollama-Backend", model);
+    },
+    committed: () => res.headersSent,
+  };
+}
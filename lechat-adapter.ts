@@ -0,0 +1,227 @@
+// lechat-adapter.ts - Playwright automation for Le Chat (Mistral AI)
+import {
+  type AdapterCapabilities,
+  type AdapterMetadata,
+  registerAdapter,
+  type SendMessageOptions,
+} from "./adapter.ts";
+import { stopGeneration, watchResponse } from "./streaming.ts";
+import { SelectorSet } from "./selectors.ts";
+import { SiteAdapter } from "./site-adapter.ts";
+import { PhaseTimer } from "./metrics.ts";
+import { checkLimitNotice, mightBeLimitNotice } from "./limits.ts";
+import { recordFixture, registerConverter } from "./fixtures.ts";
+import { createConverter, formatResponse } from "./markdown.ts";
+import { RequestAbortedError, throwIfAborted } from "./errors.ts";
+import { Logger } from "./logger.ts";
+
+const log = new Logger("LeChat");
+
+const selectors = new SelectorSet("lechat", {
+  // Le Chat has used both a ProseMirror editor and a textarea for its prompt
+  input: [
+    'div.ProseMirror[contenteditable="true"]',
+    'textarea[name="message.text"]',
+    'div[contenteditable="true"]',
+  ],
+  send: [
+    'button[aria-label="Send question"]',
+    'form button[type="submit"]',
+  ],
+  stop: [
+    'button[aria-label*="Stop"]',
+  ],
+  response: [
+    'div[data-message-author-role="assistant"]',
+  ],
+  signIn: [
+    'a[href*="auth.mistral.ai"]',
+    'form[action*="login"]',
+  ],
+  captcha: [
+    'iframe[src*="challenges.cloudflare.com"]',
+  ],
+  quota: [
+    '[data-sonner-toast]:text-matches("rate limit|limit reached", "i")',
+    '[role="alert"]:text-matches("rate limit|limit reached", "i")',
+  ],
+});
+
+// Shared rules from markdown.ts, with Le Chat's code blocks on top
+const turndown = createConverter();
+
+// --- CUSTOM RULE FOR LE CHAT CODE BLOCKS ---
+// Code blocks are a <pre> with a header bar (language label + copy button)
+// followed by <code class="language-xxx">
+turndown.addRule("lechatCodeBlock", {
+  filter: "pre",
+  // deno-lint-ignore no-explicit-any
+  replacement: (_content: string, node: any) => {
+    // deno-lint-ignore no-explicit-any
+    const el = node as any;
+
+    const codeEl = el.querySelector("code");
+    if (!codeEl) return "\n```\n" + el.textContent + "\n```\n";
+
+    // 1. Prefer the language class on the code element
+    const langClass = (codeEl.getAttribute("class") || "")
+      .split(/\s+/)
+      .find((c: string) => c.startsWith("language-"));
+    let lang = langClass ? langClass.slice("language-".length) : "";
+
+    // 2. Fall back to the header label, e.g. <span>python</span>
+    if (!lang) {
+      const labelEl = el.querySelector("div span");
+      lang = labelEl?.textContent?.trim().toLowerCase() || "";
+      if (lang === "copy" || lang.includes(" ")) lang = ""; // Safety check
+    }
+
+    const code = codeEl.textContent.replace(/\n$/, "");
+    return `\n\`\`\`${lang}\n${code}\n\`\`\`\n\n`;
+  },
+});
+
+const limitNotices = [
+  /^rate limit exceeded/i,
+  /^you(['’]ve| have) reached your (message )?limit/i,
+];
+
+// Runs in the page: the answer text lives in the "answer" part of the
+// message; tool calls and reasoning are rendered as separate parts. Null
+// while the message has no answer part, unless the reply is `done`: then it
+// has none at all (e.g. a notice posted as a reply) and the message without
+// those parts is read.
+export const readAnswerHtml = (
+  // deno-lint-ignore no-explicit-any
+  el: any,
+  done: boolean,
+): string | null => {
+  const answer = el.querySelector('[data-message-part-type="answer"]');
+  if (answer) return answer.innerHTML;
+  if (!done) return null;
+  const message = el.cloneNode(true);
+  for (
+    const part of message.querySelectorAll(
+      '[data-message-part-type="reasoning"], [data-message-part-type="tool"]',
+    )
+  ) {
+    part.remove();
+  }
+  return message.innerHTML;
+};
+
+const toMarkdown = (html: string): string => turndown.turndown(html);
+
+registerConverter("lechat", toMarkdown);
+
+const metadata: AdapterMetadata = {
+  name: "lechat-browser",
+  family: "mistral",
+  license: "Mistral AI",
+  site: "chat.mistral.ai",
+};
+
+const capabilities: AdapterCapabilities = {
+  fileUpload: false,
+};
+
+export class LeChatAdapter extends SiteAdapter {
+  readonly metadata = metadata;
+  readonly capabilities = capabilities;
+
+  constructor() {
+    super(selectors, log, {
+      root: "https://chat.mistral.ai",
+      newChat: "/chat",
+    });
+  }
+
+  async sendMessage(
+    prompt: string,
+    _files: string[] = [],
+    options: SendMessageOptions = {},
+  ): Promise<string> {
+    if (!this.page) throw new Error("Browser not initialized");
+    const timer = new PhaseTimer(metadata.name);
+
+    log.info(`Sending message (${prompt.length} chars)...`);
+
+    const input = (await selectors.resolve(this.page, "input")).first();
+
+    await input.click();
+    await this.page.waitForTimeout(200);
+    await input.fill(prompt);
+
+    log.debug("Waiting for Send button...");
+    const sendButton = await selectors.resolve(this.page, "send", {
+      timeoutMs: 5000,
+    });
+
+    // Remember how many responses exist so we never read an old one
+    const before = await selectors.count(this.page, "response");
+
+    throwIfAborted(options.signal);
+    await sendButton.first().click();
+    timer.mark("send");
+
+    log.info("Message sent, waiting for response...");
+
+    // Wait for generation to finish: the Stop button replaces Send meanwhile
+    const page = this.page;
+    const stopButton = selectors.any(page, "stop").first();
+    const isGenerating = () => stopButton.isVisible();
+    await stopButton.waitFor({ state: "visible", timeout: 3000 }).catch(
+      () => {},
+    );
+    const stream = await watchResponse({
+      site: "lechat",
+      page,
+      isGenerating,
+      render: async () => {
+        const response = await selectors.findNew(page, "response", before);
+        if (!response) return null;
+        const html = await response.evaluate(readAnswerHtml, false);
+        if (html === null) return null;
+        const markdown = toMarkdown(html);
+        // A limit notice must fail the request, not reach the client
+        if (mightBeLimitNotice(markdown, limitNotices)) return null;
+        return formatResponse(html, markdown, options.format);
+      },
+      onDelta: options.onDelta,
+      signal: options.signal,
+    });
+
+    if (options.signal?.aborted) {
+      log.info("Client disconnected, stopping generation...");
+      await stopGeneration(page, stopButton, isGenerating);
+      throw new RequestAbortedError();
+    }
+    timer.mark("generate");
+
+    await this.page.waitForTimeout(500); // Extra breath for rendering
+
+    const newResponse = await selectors.findNew(this.page, "response", before);
+    // No new message usually means a limit notice or captcha came up instead
+    if (!newResponse) await selectors.checkBlocked(this.page);
+    const lastResponse = newResponse ??
+      (await selectors.resolve(this.page, "response", { state: "attached" }))
+        .last();
+    const html = await lastResponse.evaluate(readAnswerHtml, true) ?? "";
+    const markdown = checkLimitNotice("lechat", toMarkdown(html), limitNotices);
+    const responseText = formatResponse(html, markdown, options.format);
+    timer.mark("scrape");
+    stream.finish(responseText);
+    await recordFixture("lechat", html, markdown);
+
+    log.info(
+      `✓ Response received (${responseText.length} chars)`,
+    );
+    return responseText;
+  }
+}
+
+registerAdapter({
+  metadata,
+  capabilities,
+  create: () => new LeChatAdapter(),
+});
@@ -0,0 +1,66 @@
+// lechat-adapter_test.ts - Le Chat's answer extraction and code blocks
+import { readAnswerHtml } from "./lechat-adapter.ts";
+import assert from "node:assert/strict";
+import { readFileSync } from "node:fs";
+import domino from "npm:@mixmark-io/domino@2.2.0";
+import { getConverter } from "./fixtures.ts";
+
+const convert = getConverter("lechat")!;
+
+const fixture = (name: string) =>
+  readFileSync(
+    new URL(`./fixtures/lechat/${name}.html`, import.meta.url),
+    "utf8",
+  );
+
+// A whole assistant message as Le Chat renders it, the answer after the
+// model's reasoning and a web search tool call
+function message(answer: string): string {
+  return `<div data-message-author-role="assistant">` +
+    `<div data-message-part-type="reasoning"><p>The user wants the largest files.</p></div>` +
+    `<div data-message-part-type="tool"><span>Searched the web</span></div>` +
+    `<div data-message-part-type="answer">${answer}</div>` +
+    `</div>`;
+}
+
+const messageElement = (html: string) =>
+  domino.createDocument(html).querySelector(
+    '[data-message-author-role="assistant"]',
+  );
+
+Deno.test("only the answer part of a message is read", () => {
+  const answer = fixture("code-blocks");
+  const html = readAnswerHtml(messageElement(message(answer)), false);
+  assert.equal(html, answer);
+  assert.doesNotMatch(convert(html!), /largest files\.|Searched the web/);
+});
+
+Deno.test("a message without an answer part reads as null", () => {
+  const element = messageElement(
+    `<div data-message-author-role="assistant"><p>Rate limit exceeded.</p></div>`,
+  );
+  assert.equal(readAnswerHtml(element, false), null);
+});
+
+Deno.test("a finished message without an answer part leaves out the other parts", () => {
+  const element = messageElement(
+    `<div data-message-author-role="assistant">` +
+      `<div data-message-part-type="reasoning"><p>The user wants files.</p></div>` +
+      `<div data-message-part-type="tool"><span>Searched the web</span></div>` +
+      `<p>Rate limit exceeded.</p></div>`,
+  );
+  assert.equal(convert(readAnswerHtml(element, true)!), "Rate limit exceeded.");
+});
+
+Deno.test("code blocks take the language class, else the header label", () => {
+  const markdown = convert(fixture("code-blocks"));
+  assert.match(markdown, /```bash\ndu -ah \. \| sort -rh \| head -n 10\n```/);
+  assert.match(markdown, /```python\nimport os\n\nsizes = /);
+  assert.doesNotMatch(markdown, /^Copy$/m);
+});
+
+Deno.test("a code block without a label gets a bare fence", () => {
+  const markdown = convert(fixture("code-blocks"));
+  assert.match(markdown, /```\n10G \.\/videos\n```/);
+  assert.doesNotMatch(markdown, /```copy/);
+});
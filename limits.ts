@@ -0,0 +1,47 @@
+// limits.ts - Recognize usage-limit notices that sites render as a reply
+//
+// Some sites answer a rate-limited prompt with an ordinary-looking message
+// ("You've reached your limit...") instead of a banner, which would otherwise
+// be returned to the client as the model's answer.
+import { QuotaExceededError } from "./errors.ts";
+
+// Real answers that happen to mention limits are far longer than a notice
+const MAX_NOTICE_LENGTH = 400;
+// Long enough to hold the opening phrase the notice patterns look for
+const MIN_DECIDABLE_LENGTH = 60;
+
+/**
+ * Whether a partial render may still turn out to be a limit notice, so it must
+ * not be streamed yet: a notice fails the request (and may fall back to
+ * another model), which is no longer possible once text reached the client.
+ */
+export function mightBeLimitNotice(
+  markdown: string,
+  patterns: RegExp[],
+): boolean {
+  const text = markdown.trim();
+  if (text.length > MAX_NOTICE_LENGTH) return false;
+  return text.length < MIN_DECIDABLE_LENGTH ||
+    patterns.some((pattern) => pattern.test(text));
+}
+
+/**
+ * Throws QuotaExceededError if `markdown` is a limit notice, else returns it.
+ * Meant for the final response only: the start of a streamed answer is short
+ * enough to pass for a notice, and the site must be idle before we give up.
+ * While streaming, hold renders back with mightBeLimitNotice() instead.
+ */
+export function checkLimitNotice(
+  site: string,
+  markdown: string,
+  patterns: RegExp[],
+): string {
+  const text = markdown.trim();
+  if (
+    text.length <= MAX_NOTICE_LENGTH &&
+    patterns.some((pattern) => pattern.test(text))
+  ) {
+    throw new QuotaExceededError(site, text);
+  }
+  return markdown;
+}
@@ -0,0 +1,33 @@
+// limits_test.ts - Usage-limit notices are held back and then rejected
+import assert from "node:assert/strict";
+import { checkLimitNotice, mightBeLimitNotice } from "./limits.ts";
+import { QuotaExceededError } from "./errors.ts";
+
+const patterns = [/^you(['’]ve| have) reached your limit/i];
+const notice = "You've reached your limit. Try again after 8:00 PM.";
+
+Deno.test("a notice is never streamed while it renders", () => {
+  for (let end = 1; end <= notice.length; end++) {
+    assert.ok(mightBeLimitNotice(notice.slice(0, end), patterns));
+  }
+  assert.throws(
+    () => checkLimitNotice("test", notice, patterns),
+    QuotaExceededError,
+  );
+});
+
+Deno.test("an answer streams once it can't be a notice", () => {
+  const answer = "The limit of 1/x as x approaches infinity is 0, because " +
+    "the denominator keeps growing.";
+  assert.ok(mightBeLimitNotice(answer.slice(0, 20), patterns));
+  assert.ok(!mightBeLimitNotice(answer, patterns));
+  assert.equal(checkLimitNotice("test", answer, patterns), answer);
+});
+
+Deno.test("a long answer quoting a notice is not one", () => {
+  const answer = `${notice}\n\n${
+    "That message means the quota ran out. ".repeat(12)
+  }`;
+  assert.ok(!mightBeLimitNotice(answer, patterns));
+  assert.equal(checkLimitNotice("test", answer, patterns), answer);
+});
@@ -0,0 +1,118 @@
+// logger.ts - Leveled logging with optional JSON output and request IDs
+//
+// Each module logs through a `Logger` named after its scope ("Gemini",
+// "Queue", ...). Text output keeps the familiar "[Scope] message" lines; JSON
+// output writes one object per line for log collectors. The API server runs
+// every request inside `withRequestId()`, so lines logged while serving it,
+// down to the adapter driving the tab, carry the same request ID.
+import { AsyncLocalStorage } from "node:async_hooks";
+import { randomUUID } from "node:crypto";
+import process from "node:process";
+
+export type LogLevel = "debug" | "info" | "warn" | "error" | "silent";
+
+export const LOG_LEVELS: LogLevel[] = [
+  "debug",
+  "info",
+  "warn",
+  "error",
+  "silent",
+];
+
+export type LogFields = Record<string, unknown>;
+
+export interface LoggingOptions {
+  /** Lines below this level are dropped; "silent" drops everything */
+  level: LogLevel;
+  /** One JSON object per line instead of "[Scope] message" text */
+  json: boolean;
+}
+
+let loggingOptions: LoggingOptions = { level: "info", json: false };
+
+export function configureLogging(options: Partial<LoggingOptions>) {
+  loggingOptions = { ...loggingOptions, ...options };
+}
+
+const requestIds = new AsyncLocalStorage<string>();
+
+export function newRequestId(): string {
+  return randomUUID().slice(0, 8);
+}
+
+/** Runs `fn` with `id` attached to everything logged until it settles */
+export function withRequestId<T>(id: string, fn: () => T): T {
+  return requestIds.run(id, fn);
+}
+
+export function currentRequestId(): string | undefined {
+  return requestIds.getStore();
+}
+
+function serialize(value: unknown): unknown {
+  if (!(value instanceof Error)) return value;
+  const status = (value as { status?: number }).status;
+  return { name: value.name, message: value.message, status };
+}
+
+function formatField(value: unknown): string {
+  return typeof value === "string" ? value : JSON.stringify(serialize(value));
+}
+
+export class Logger {
+  constructor(readonly scope: string) {}
+
+  debug(message: string, fields?: LogFields) {
+    this.write("debug", message, fields);
+  }
+
+  info(message: string, fields?: LogFields) {
+    this.write("info", message, fields);
+  }
+
+  warn(message: string, fields?: LogFields) {
+    this.write("warn", message, fields);
+  }
+
+  error(message: string, fields?: LogFields) {
+    this.write("error", message, fields);
+  }
+
+  private write(level: LogLevel, message: string, fields: LogFields = {}) {
+    if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(loggingOptions.level)) {
+      return;
+    }
+    const requestId = currentRequestId();
+    const stream = level === "warn" || level === "error"
+      ? process.stderr
+      : process.stdout;
+
+    if (loggingOptions.json) {
+      const entry: LogFields = {
+        time: new Date().toISOString(),
+        level,
+        scope: this.scope,
+        request_id: requestId,
+        msg: message,
+      };
+      for (const [key, value] of Object.entries(fields)) {
+        entry[key] = serialize(value);
+      }
+      stream.write(JSON.stringify(entry) + "\n");
+      return;
+    }
+
+    const { error, ...rest } = fields;
+    let line = requestId
+      ? `[${this.scope}] [${requestId}] ${message}`
+      : `[${this.scope}] ${message}`;
+    for (const [key, value] of Object.entries(rest)) {
+      line += ` ${key}=${formatField(value)}`;
+    }
+    // Errors get their stack on the following lines, like console.error
+    if (error !== undefined) {
+      line += "\n" + (error instanceof Error ? error.stack : String(error));
+    }
+    stream.write(line + "\n");
+  }
+}
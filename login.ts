@@ -0,0 +1,93 @@
+// login.ts - `wollama login <model>`: sign in once into a persistent profile
+//
+// Opens the model's site in a visible Chrome with the configured profile and
+// waits until the adapter's signed-in probe passes. The session is stored in
+// the profile, so later server runs (headless ones too) start signed in.
+import {
+  type BrowserChatAdapter,
+  getRegistration,
+  listAdapters,
+} from "./adapter.ts";
+import { cdpPortFor, configureBrowser, profileDir } from "./browser.ts";
+import type { WollamaConfig } from "./config.ts";
+import { Logger } from "./logger.ts";
+
+const log = new Logger("Login");
+
+// Time the user gets to finish signing in, 2FA prompts included
+const LOGIN_TIMEOUT_MS = 10 * 60 * 1000;
+// Longest a single signed-in probe waits before the next one starts
+const PROBE_MS = 2000;
+
+// A sign-in prompt on screen only means the user isn't done yet, so the probe
+// is repeated until the chat shows without one or the time is up
+async function waitForSignIn(
+  adapter: BrowserChatAdapter,
+  timeoutMs: number,
+): Promise<boolean> {
+  const deadline = Date.now() + timeoutMs;
+  while (Date.now() < deadline) {
+    if (await adapter.isSignedIn(PROBE_MS)) return true;
+    await new Promise((r) => setTimeout(r, PROBE_MS));
+  }
+  return false;
+}
+
+/** Runs the login flow and resolves with the process exit code */
+export async function login(
+  model: string | undefined,
+  config: WollamaConfig,
+): Promise<number> {
+  const registration = model ? getRegistration(model) : null;
+  if (!registration) {
+    const names = listAdapters().map((r) => r.metadata.name).join(", ");
+    log.error(
+      model
+        ? `Unknown model "${model}", expected one of: ${names}`
+        : `Usage: wollama login <model> (one of: ${names})`,
+    );
+    return 1;
+  }
+
+  const { profile } = config.chrome;
+  if (profile === "temp") {
+    log.error(
+      "The temporary profile is deleted on exit, so the login would " +
+        "be lost. Pass --profile <name> (or --profile default).",
+    );
+    return 1;
+  }
+
+  // Signing in needs a window, whatever the settings say
+  configureBrowser({ headless: false });
+
+  const { site } = registration.metadata;
+  const adapter = registration.create();
+  try {
+    await adapter.ensureReady({ openOnly: true });
+    log.info(`Sign in to ${site} in the browser window...`);
+
+    if (!(await waitForSignIn(adapter, LOGIN_TIMEOUT_MS))) {
+      log.error(
+        `Not signed in to ${site} after ${
+          LOGIN_TIMEOUT_MS / 60000
+        } minutes, giving up`,
+      );
+      return 1;
+    }
+
+    const location = profile === "default"
+      ? "the default Chrome profile"
+      : `profile "${profile}" (${
+        profileDir(profile, cdpPortFor(registration.metadata.name))
+      })`;
+    log.info(`✓ Signed in to ${site}, saved in ${location}`);
+    return 0;
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    log.error(message);
+    return 1;
+  } finally {
+    await adapter.close();
+  }
+}
@@ -0,0 +1,34 @@
+// login_test.ts - `wollama login` waits for the user to sign in
+import assert from "node:assert/strict";
+import { type BrowserChatAdapter, registerAdapter } from "./adapter.ts";
+import type { WollamaConfig } from "./config.ts";
+import { configureLogging } from "./logger.ts";
+import { login } from "./login.ts";
+
+configureLogging({ level: "silent" });
+
+// Logged out for the first probes (the site shows its sign-in prompt), then
+// signed in, like a user finishing the sign-in form
+let probes = 0;
+const fake: BrowserChatAdapter = {
+  metadata: { name: "login-test", family: "test", license: "N/A", site: "x" },
+  capabilities: { fileUpload: false },
+  ensureReady: () => Promise.resolve(),
+  isSignedIn: () => Promise.resolve(++probes > 2),
+  sendMessage: () => Promise.resolve(""),
+  getTabStatus: () => ({ ready: false, url: null }),
+  resetTab: () => Promise.resolve(),
+  close: () => Promise.resolve(),
+};
+
+registerAdapter({
+  metadata: fake.metadata,
+  capabilities: fake.capabilities,
+  create: () => fake,
+});
+
+Deno.test("a sign-in prompt keeps the login waiting", async () => {
+  const config = { chrome: { profile: "work" } } as WollamaConfig;
+  assert.equal(await login("login-test", config), 0);
+  assert.equal(probes, 3);
+});
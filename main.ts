@@ -1,19 +1,153 @@
-// main.ts - Ollama-compatible API server with Gemini/ChatGPT backend
-import { GeminiAdapter } from "./gemini-adapter.ts";
-import { ChatGPTAdapter } from "./chatgpt-adapter.ts";
-import { setUseDefaultProfile } from "./browser.ts";
+// main.ts - Ollama-compatible API server backed by browser chat adapters
+import "./gemini-adapter.ts";
+import "./chatgpt-adapter.ts";
+import "./claude-adapter.ts";
+import "./lechat-adapter.ts";
+import {
+  type AdapterMetadata,
+  closeAdapters,
+  configureBaseUrls,
+  configureScheduler,
+  getModelStatus,
+  getRegistration,
+  listAdapters,
+  setEnabledAdapters,
+} from "./adapter.ts";
+import { configureBrowser, profileDir } from "./browser.ts";
+import {
+  ConfigError,
+  loadConfig,
+  parseNumber,
+  validateLayer,
+  type WollamaConfig,
+} from "./config.ts";
+import {
+  InvalidRequestError,
+  RequestAbortedError,
+  WollamaError,
+} from "./errors.ts";
+import {
+  disconnectSignal,
+  parseBody,
+  requestIdHeader,
+  routeOptions,
+  sendJson,
+  sessionHeader,
+  trackRequest,
+} from "./http.ts";
+import { Gauge, renderMetrics } from "./metrics.ts";
+import { configureFixtures } from "./fixtures.ts";
+import { parseOutputFormat } from "./markdown.ts";
+import { handleOpenAI } from "./openai.ts";
+import { type AttachmentSource, withAttachments } from "./attachments.ts";
+import { sendChat } from "./conversations.ts";
+import { buildGeneratePrompt, type ChatMessage } from "./prompt.ts";
+import { configureTimeouts } from "./timeouts.ts";
+import { getMatchedSelectors } from "./selectors.ts";
+import { login } from "./login.ts";
+import {
+  AUTO_MODEL,
+  configureFallbacks,
+  getModelMetadata,
+  listModels,
+  routeFor,
+  runRouted,
+} from "./routing.ts";
 import { createServer, IncomingMessage, ServerResponse } from "node:http";
+import { resolve } from "node:path";
+import { pathToFileURL } from "node:url";
 import process from "node:process";
 import { parseArgs } from "node:util";
-
-// Parse CLI arguments
-const { values } = parseArgs({
+import {
+  configureLogging,
+  Logger,
+  newRequestId,
+  withRequestId,
+} from "./logger.ts";
+import packageInfo from "./jsr.json" with { type: "json" };
+
+const log = new Logger("Server");
+const configLog = new Logger("Config");
+const generateLog = new Logger("Generate");
+const chatLog = new Logger("Chat");
+const tagsLog = new Logger("Tags");
+const showLog = new Logger("Show");
+
+// Parse CLI arguments. Settings without a flag value come from wollama.json,
+// the environment or the defaults (see config.ts).
+const { values, positionals } = parseArgs({
   args: process.argv.slice(2),
   options: {
+    config: {
+      type: "string",
+      short: "c",
+    },
+    host: {
+      type: "string",
+    },
+    port: {
+      type: "string",
+      short: "p",
+    },
+    "chrome-path": {
+      type: "string",
+    },
+    "cdp-port": {
+      type: "string",
+    },
     "default-profile": {
       type: "boolean",
       short: "d",
-      default: false,
+    },
+    profile: {
+      type: "string",
+    },
+    headless: {
+      type: "boolean",
+    },
+    "data-dir": {
+      type: "string",
+    },
+    "record-fixtures": {
+      type: "string",
+    },
+    adapter: {
+      type: "string",
+      short: "a",
+      multiple: true,
+    },
+    fallback: {
+      type: "string",
+      short: "f",
+      multiple: true,
+    },
+    tabs: {
+      type: "string",
+      short: "t",
+    },
+    "max-queue": {
+      type: "string",
+    },
+    "queue-timeout": {
+      type: "string",
+    },
+    "ready-timeout": {
+      type: "string",
+    },
+    "send-timeout": {
+      type: "string",
+    },
+    "upload-timeout": {
+      type: "string",
+    },
+    "generate-timeout": {
+      type: "string",
+    },
+    "log-level": {
+      type: "string",
+    },
+    "log-json": {
+      type: "boolean",
     },
     help: {
       type: "boolean",
@@ -21,90 +155,386 @@ const { values } = parseArgs({
       default: false,
     },
   },
+  allowPositionals: true,
 });
 
+const [command, ...commandArgs] = positionals;
+
 if (values.help) {
   console.log(`
 Wollama - Web + Ollama
 
 Usage: deno run -A main.ts [options]
+       deno run -A main.ts login <model> --profile <name>
+
+Commands:
+  login <model>          Open the model's site in a visible Chrome with the
+                         chosen profile and wait until you are signed in
 
 Options:
+  -c, --config <path>    Settings file (default: ./wollama.json if present)
+  --host <addr>          Interface to listen on (default: all)
+  -p, --port <n>         Port to listen on (default: 11434)
+  --chrome-path <path>   Chrome binary to launch (default: search common paths)
+  --cdp-port <n>         Chrome remote debugging port (default: 9222)
   -d, --default-profile  Use Chrome's default profile (your logged-in account)
+  --profile <name>       Chrome profile: "temp" (default), "default" or the
+                         name of a persistent profile kept in the data dir
+  --headless             Launch Chrome without a window
+  --data-dir <path>      Where persistent profiles are stored
+                         (default: ~/.local/share/wollama or platform equivalent)
+  -a, --adapter <path>   Load an extra adapter module (can be used multiple times)
+  -f, --fallback <model>=<m1>,<m2>
+                         Models to retry on when <model> hits a usage limit,
+                         sign-in wall or captcha (can be used multiple times;
+                         "auto-browser" tries all models unless set here)
+  -t, --tabs <n>         Tabs per model serving requests in parallel (default: 1)
+  --max-queue <n>        Requests that may wait per model before 429 (default: 16)
+  --queue-timeout <sec>  Max seconds a request waits in queue before 503
+                         (default: 300, 0 = wait forever)
+  --ready-timeout <sec>  Max seconds to open a tab and find the chat input,
+                         e.g. while signing in (default: 120)
+  --send-timeout <sec>   Max seconds per step of submitting a prompt (default: 30)
+  --upload-timeout <sec> Max seconds for uploaded files to be processed
+                         (default: 120)
+  --generate-timeout <sec>
+                         Max seconds the site may take to answer (default: 600)
+  --log-level <level>    debug, info, warn, error or silent (default: info)
+  --log-json             Log one JSON object per line
+  --record-fixtures <dir>
+                         Save each response's HTML and markdown to <dir> for
+                         scripts/replay-fixtures.ts
   -h, --help             Show this help message
 
+Environment:
+  WOLLAMA_CONFIG, WOLLAMA_HOST, WOLLAMA_PORT, WOLLAMA_CHROME_PATH,
+  WOLLAMA_CHROME_FLAGS, WOLLAMA_CDP_PORT, WOLLAMA_PROFILE (temp|default|<name>),
+  WOLLAMA_HEADLESS (1|0), WOLLAMA_DATA_DIR, WOLLAMA_LOG_LEVEL,
+  WOLLAMA_LOG_JSON (1|0), WOLLAMA_FIXTURES_DIR,
+  WOLLAMA_ADAPTERS (comma-separated models to serve)
+
 Examples:
   deno run -A main.ts                    # Use temporary profile
   deno run -A main.ts --default-profile  # Use your Chrome account
   deno run -A main.ts -d                 # Short form
+  deno run -A main.ts --profile work     # Persistent profile
+  deno run -A main.ts login gemini-browser --profile work
+  deno run -A main.ts --profile work --headless
+  deno run -A main.ts -a ./my-adapter.ts # Register a custom adapter
+  deno run -A main.ts -f gemini-browser=chatgpt-browser,claude-browser
+  deno run -A main.ts -c ./wollama.json  # Load settings from a file
 `);
   process.exit(0);
 }
 
-// Configure browser profile
-setUseDefaultProfile(values["default-profile"] ?? false);
+function parseFallbacks(routes: string[]): Record<string, string[]> {
+  return Object.fromEntries(routes.map((route) => {
+    const [model, targets = ""] = route.split("=", 2);
+    return [
+      model.trim(),
+      targets.split(",").map((t) => t.trim()).filter((t) => t),
+    ];
+  }));
+}
+
+function loadSettings(): WollamaConfig {
+  const cli = validateLayer({
+    host: values.host,
+    port: parseNumber(values.port),
+    dataDir: values["data-dir"],
+    fixturesDir: values["record-fixtures"],
+    chrome: {
+      path: values["chrome-path"],
+      cdpPort: parseNumber(values["cdp-port"]),
+      profile: values.profile ??
+        (values["default-profile"] ? "default" : undefined),
+      headless: values.headless,
+    },
+    adapters: {
+      modules: values.adapter,
+      fallbacks: values.fallback && parseFallbacks(values.fallback),
+    },
+    queue: {
+      tabs: parseNumber(values.tabs),
+      maxDepth: parseNumber(values["max-queue"]),
+      timeout: parseNumber(values["queue-timeout"]),
+    },
+    logging: {
+      level: values["log-level"],
+      json: values["log-json"],
+    },
+    timeouts: {
+      ready: parseNumber(values["ready-timeout"]),
+      send: parseNumber(values["send-timeout"]),
+      upload: parseNumber(values["upload-timeout"]),
+      generate: parseNumber(values["generate-timeout"]),
+    },
+  }, "command line");
+  return loadConfig(values.config, cli);
+}
+
+// Model names in the settings can only be checked once every adapter module
+// has registered itself
+function checkModelNames(config: WollamaConfig) {
+  const known = (name: string) => name === AUTO_MODEL || getRegistration(name);
+  const { enabled, fallbacks, baseUrls } = config.adapters;
+
+  for (const name of enabled ?? []) {
+    if (!getRegistration(name)) {
+      throw new ConfigError(
+        "configuration",
+        `"adapters.enabled" names unknown model "${name}"`,
+      );
+    }
+  }
+  for (const model of Object.keys(baseUrls)) {
+    if (!getRegistration(model)) {
+      throw new ConfigError(
+        "configuration",
+        `"adapters.baseUrls" names unknown model "${model}"`,
+      );
+    }
+  }
+  for (const [model, targets] of Object.entries(fallbacks)) {
+    for (const name of [model, ...targets]) {
+      if (!known(name)) {
+        throw new ConfigError(
+          "configuration",
+          `"adapters.fallbacks" names unknown model "${name}"`,
+        );
+      }
+    }
+  }
+}
+
+// Chrome opens a user data directory only once. Named and temporary profiles
+// get a directory per port, but there is only one default profile.
+function checkProfilePorts(config: WollamaConfig) {
+  if (config.chrome.profile !== "default") return;
+  for (const [model, port] of Object.entries(config.adapters.cdpPorts)) {
+    if (port !== config.chrome.cdpPort) {
+      throw new ConfigError(
+        "configuration",
+        `"adapters.cdpPorts" gives "${model}" its own Chrome, but the ` +
+          `default profile can't be opened by two Chromes; use a named ` +
+          `profile instead`,
+      );
+    }
+  }
+}
+
+let config: WollamaConfig;
+try {
+  config = loadSettings();
+  configureLogging(config.logging);
+
+  // Load extra adapter modules; they register themselves on import
+  for (const modulePath of config.adapters.modules) {
+    const specifier = /^[a-z]+:/i.test(modulePath)
+      ? modulePath
+      : pathToFileURL(resolve(process.cwd(), modulePath)).href;
+    await import(specifier);
+  }
+
+  checkModelNames(config);
+  checkProfilePorts(config);
+
+  if (command && command !== "login") {
+    throw new ConfigError("command line", `unknown command "${command}"`);
+  }
+} catch (error) {
+  if (!(error instanceof ConfigError)) throw error;
+  configLog.error(error.message);
+  process.exit(1);
+}
 
-// Initialize both adapters and map them by model name
-const adapters = {
-  "gemini-browser": new GeminiAdapter(),
-  "chatgpt-browser": new ChatGPTAdapter(),
-};
-type Adapter = GeminiAdapter | ChatGPTAdapter;
+// Configure browser profile and Chrome
+configureBrowser({
+  chromePath: config.chrome.path,
+  flags: config.chrome.flags,
+  cdpPort: config.chrome.cdpPort,
+  adapterPorts: config.adapters.cdpPorts,
+  profile: config.chrome.profile,
+  dataDir: config.dataDir,
+  headless: config.chrome.headless,
+});
+
+// Each model serves one request per tab; the rest wait in a FIFO queue
+configureScheduler({
+  poolSize: config.queue.tabs,
+  maxQueueDepth: config.queue.maxDepth,
+  queueTimeoutMs: config.queue.timeout * 1000,
+});
 
-interface OllamaGenerateRequest {
+configureFallbacks(config.adapters.fallbacks);
+configureBaseUrls(config.adapters.baseUrls);
+configureFixtures(config.fixturesDir ?? null);
+
+configureTimeouts({
+  ready: config.timeouts.ready * 1000,
+  send: config.timeouts.send * 1000,
+  upload: config.timeouts.upload * 1000,
+  generate: config.timeouts.generate * 1000,
+});
+
+setEnabledAdapters(config.adapters.enabled ?? null);
+
+if (command === "login") {
+  process.exit(await login(commandArgs[0], config));
+}
+
+// `images` is Ollama's field; `attachments` is a Wollama extension for any
+// file type (see attachments.ts)
+interface OllamaGenerateRequest extends AttachmentSource {
   model: string;
-  prompt: string;
+  /** Without one the request only loads the model, as in Ollama */
+  prompt?: string;
   system?: string;
   stream?: boolean;
+  /** Wollama extension: "markdown" (default), "text" or "html" */
+  output_format?: string;
 }
 
 interface OllamaChatRequest {
   model: string;
-  messages: Array<{
-    role: string;
-    content: string;
-  }>;
+  /** Without any the request only loads the model, as in Ollama */
+  messages?: ChatMessage[];
   stream?: boolean;
+  /** Wollama extension: pin the request to a browser chat thread */
+  session_id?: string;
+  /** Wollama extension: "markdown" (default), "text" or "html" */
+  output_format?: string;
 }
 
-function parseBody(req: IncomingMessage): Promise<string> {
-  return new Promise((resolve, reject) => {
-    let body = "";
-    // deno-lint-ignore no-explicit-any
-    req.on("data", (chunk: any) => (body += chunk));
-    req.on("end", () => resolve(body));
-    req.on("error", reject);
-  });
+// Parses an Ollama request body and checks the fields we read with `validate`,
+// which throws InvalidRequestError. Answers 400 and returns null if it fails.
+async function readRequest<T extends { model: string }>(
+  req: IncomingMessage,
+  res: ServerResponse,
+  validate: (body: Record<string, unknown>) => void,
+): Promise<T | null> {
+  try {
+    let body: unknown;
+    try {
+      body = JSON.parse(await parseBody(req));
+    } catch {
+      throw new InvalidRequestError("Could not parse request body as JSON");
+    }
+    if (typeof body !== "object" || body === null || Array.isArray(body)) {
+      throw new InvalidRequestError("Request body must be a JSON object");
+    }
+    const fields = body as Record<string, unknown>;
+    if (typeof fields.model !== "string" || fields.model === "") {
+      throw new InvalidRequestError("'model' is required");
+    }
+    validate(fields);
+    return body as T;
+  } catch (error) {
+    if (!(error instanceof InvalidRequestError)) throw error;
+    sendError(res, error.message, error.status);
+    return null;
+  }
 }
 
-function sendJson(res: ServerResponse, data: object, status = 200) {
-  res.writeHead(status, {
-    "Content-Type": "application/json",
-    "Access-Control-Allow-Origin": "*",
-  });
-  res.end(JSON.stringify(data));
+function checkOptionalString(body: Record<string, unknown>, field: string) {
+  if (body[field] !== undefined && typeof body[field] !== "string") {
+    throw new InvalidRequestError(`'${field}' must be a string`);
+  }
 }
 
-// Helper function to get the correct adapter
-function getAdapter(modelName: string): Adapter | null {
-  // deno-lint-ignore no-explicit-any
-  const adapter = (adapters as any)[modelName];
-  if (adapter) return adapter as Adapter;
-  return null;
+function checkMessages(body: Record<string, unknown>) {
+  const { messages } = body;
+  if (messages === undefined) return;
+  if (
+    !Array.isArray(messages) ||
+    !messages.every((m) =>
+      typeof m === "object" && m !== null && typeof m.role === "string" &&
+      typeof m.content === "string"
+    )
+  ) {
+    throw new InvalidRequestError(
+      "'messages' must be an array of { role, content } objects",
+    );
+  }
 }
 
+// Ollama streams responses as newline-delimited JSON objects. Headers are sent
+// lazily so errors before the first chunk can still return a proper status.
+function writeNdjson(res: ServerResponse, data: object) {
+  if (!res.headersSent) {
+    res.writeHead(200, {
+      "Content-Type": "application/x-ndjson",
+      "Access-Control-Allow-Origin": "*",
+    });
+  }
+  res.write(JSON.stringify(data) + "\n");
+}
+
+function sendError(res: ServerResponse, message: string, status = 500) {
+  if (res.headersSent) {
+    // Mid-stream failure: Ollama reports it as a final error object
+    res.end(JSON.stringify({ error: message }) + "\n");
+  } else {
+    sendJson(res, { error: message }, status);
+  }
+}
+
+// Ollama's model details; browser models have no size or quantization
+function modelDetails(metadata: AdapterMetadata) {
+  return {
+    format: "browser",
+    family: metadata.family,
+    families: [metadata.family],
+    parameter_size: "0B",
+    quantization_level: "browser",
+  };
+}
+
+// Tabs stay open until shutdown; Ollama clients expect an unload time
+const NEVER_EXPIRES = "9999-12-31T23:59:59Z";
+
+// Per-model health for monitoring, see /api/status
+function modelStatus(metadata: AdapterMetadata) {
+  const status = getModelStatus(metadata.name);
+  const tabs = status?.tabs ?? [];
+  return {
+    name: metadata.name,
+    site: metadata.site,
+    ready: tabs.some((tab) => tab.ready),
+    signed_in: status?.signedIn ?? null,
+    tabs,
+    busy: status?.busy ?? 0,
+    queue_depth: status?.queueDepth ?? 0,
+    last_error: status?.lastError
+      ? { ...status.lastError, at: status.lastError.at.toISOString() }
+      : null,
+    last_success: status?.lastSuccess?.toISOString() ?? null,
+  };
+}
+
+new Gauge(
+  "wollama_queue_depth",
+  "Requests waiting for a free tab",
+  () =>
+    listAdapters().map(({ metadata }) => ({
+      labels: { model: metadata.name },
+      value: getModelStatus(metadata.name)?.queueDepth ?? 0,
+    })),
+);
+
 async function handler(req: IncomingMessage, res: ServerResponse) {
   const url = new URL(req.url || "/", `http://${req.headers.host}`);
   const method = req.method || "GET";
 
-  console.log(`[${method}] ${url.pathname}`);
+  log.info(`${method} ${url.pathname}`);
 
   // Handle CORS preflight
   if (method === "OPTIONS") {
     res.writeHead(204, {
       "Access-Control-Allow-Origin": "*",
       "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-      "Access-Control-Allow-Headers": "Content-Type",
+      "Access-Control-Allow-Headers":
+        "Content-Type, Authorization, X-Session-Id, X-Request-Id",
     });
     res.end();
     return;
@@ -119,172 +549,310 @@ async function handler(req: IncomingMessage, res: ServerResponse) {
 
   // Ollama generate endpoint
   if (url.pathname === "/api/generate" && method === "POST") {
-    const body: OllamaGenerateRequest = JSON.parse(await parseBody(req));
-    const adapter = getAdapter(body.model);
+    const body = await readRequest<OllamaGenerateRequest>(req, res, (b) => {
+      checkOptionalString(b, "prompt");
+      checkOptionalString(b, "system");
+    });
+    if (!body) return;
+    const { prompt } = body;
 
-    console.log(
-      `[Generate] Model: ${body.model}, Prompt length: ${body.prompt.length}`,
+    generateLog.info(
+      `Model: ${body.model}, Prompt length: ${prompt?.length ?? 0}`,
     );
 
-    if (!adapter) {
+    if (routeFor(body.model).length === 0) {
       sendJson(res, { error: `Model not supported: ${body.model}` }, 404);
       return;
     }
-
-    try {
-      await adapter.ensureReady();
-
-      let fullPrompt = body.prompt;
-      if (body.system) {
-        fullPrompt = `${body.system}\n\n${body.prompt}`;
-      }
-
-      const response = await adapter.sendMessage(fullPrompt);
-
+    if (!prompt) {
       sendJson(res, {
         model: body.model,
         created_at: new Date().toISOString(),
-        response: response,
+        response: "",
         done: true,
+        done_reason: "load",
       });
+      return;
+    }
+    trackRequest(res, url.pathname, body.model);
+
+    // Ollama streams unless the client explicitly opts out
+    const stream = body.stream !== false;
+    const signal = disconnectSignal(res);
+
+    try {
+      const fullPrompt = buildGeneratePrompt(prompt, body.system);
+      const format = parseOutputFormat(body.output_format);
+
+      const onDelta = stream
+        ? (delta: string) =>
+          writeNdjson(res, {
+            model: body.model,
+            created_at: new Date().toISOString(),
+            response: delta,
+            done: false,
+          })
+        : undefined;
+
+      const { result: response } = await runRouted(
+        body.model,
+        async (adapter, variant) => {
+          // Start a fresh chat so the prompt can't land in a saved thread the
+          // tab still shows from an earlier /api/chat request
+          await adapter.openConversation?.(null);
+          return withAttachments(
+            adapter,
+            [body],
+            (files) =>
+              adapter.sendMessage(fullPrompt, files, {
+                onDelta,
+                signal,
+                variant,
+                format,
+              }),
+          );
+        },
+        routeOptions(res, signal),
+      );
+
+      if (stream) {
+        writeNdjson(res, {
+          model: body.model,
+          created_at: new Date().toISOString(),
+          response: "",
+          done: true,
+          done_reason: "stop",
+        });
+        res.end();
+      } else {
+        sendJson(res, {
+          model: body.model,
+          created_at: new Date().toISOString(),
+          response: response,
+          done: true,
+        });
+      }
     } catch (error) {
-      console.error("[Error]", error);
-      sendJson(res, { error: "Generation failed" }, 500);
+      if (error instanceof RequestAbortedError) {
+        generateLog.info("Client disconnected, request cancelled");
+        return;
+      }
+      generateLog.error("Generation failed", { error });
+      if (error instanceof WollamaError) {
+        sendError(res, error.message, error.status);
+      } else {
+        sendError(res, "Generation failed");
+      }
     }
     return;
   }
 
   // Ollama chat endpoint
   if (url.pathname === "/api/chat" && method === "POST") {
-    const body: OllamaChatRequest = JSON.parse(await parseBody(req));
-    const adapter = getAdapter(body.model);
+    const body = await readRequest<OllamaChatRequest>(req, res, (b) => {
+      checkMessages(b);
+      checkOptionalString(b, "session_id");
+    });
+    if (!body) return;
+    const { messages } = body;
 
-    console.log(
-      `[Chat] Model: ${body.model}, Messages: ${body.messages.length}`,
+    chatLog.info(
+      `Model: ${body.model}, Messages: ${messages?.length ?? 0}`,
     );
 
-    if (!adapter) {
+    if (routeFor(body.model).length === 0) {
       sendJson(res, { error: `Model not supported: ${body.model}` }, 404);
       return;
     }
-
-    try {
-      await adapter.ensureReady();
-
-      const systemMsg = body.messages.find((m) => m.role === "system");
-      const userMessages = body.messages.filter((m) => m.role !== "system");
-
-      let fullPrompt = "";
-      if (systemMsg) {
-        fullPrompt = `${systemMsg.content}\n\n`;
-      }
-
-      for (const msg of userMessages) {
-        fullPrompt += `${msg.role}: ${msg.content}\n`;
-      }
-
-      const response = await adapter.sendMessage(fullPrompt);
-
+    if (!messages?.length) {
       sendJson(res, {
         model: body.model,
         created_at: new Date().toISOString(),
-        message: {
-          role: "assistant",
-          content: response,
-        },
+        message: { role: "assistant", content: "" },
         done: true,
+        done_reason: "load",
       });
+      return;
+    }
+    trackRequest(res, url.pathname, body.model);
+
+    const stream = body.stream !== false;
+    const signal = disconnectSignal(res);
+
+    try {
+      const format = parseOutputFormat(body.output_format);
+      const { result: response } = await runRouted(
+        body.model,
+        (adapter, variant) => {
+          return sendChat(adapter, messages, {
+            sessionId: body.session_id ?? sessionHeader(req),
+            signal,
+            variant,
+            format,
+            onDelta: stream
+              ? (delta) =>
+                writeNdjson(res, {
+                  model: body.model,
+                  created_at: new Date().toISOString(),
+                  message: {
+                    role: "assistant",
+                    content: delta,
+                  },
+                  done: false,
+                })
+              : undefined,
+          });
+        },
+        routeOptions(res, signal),
+      );
+
+      if (stream) {
+        writeNdjson(res, {
+          model: body.model,
+          created_at: new Date().toISOString(),
+          message: {
+            role: "assistant",
+            content: "",
+          },
+          done: true,
+          done_reason: "stop",
+        });
+        res.end();
+      } else {
+        sendJson(res, {
+          model: body.model,
+          created_at: new Date().toISOString(),
+          message: {
+            role: "assistant",
+            content: response,
+          },
+          done: true,
+        });
+      }
     } catch (error) {
-      console.error("[Error]", error);
-      sendJson(res, { error: "Chat failed" }, 500);
+      if (error instanceof RequestAbortedError) {
+        chatLog.info("Client disconnected, request cancelled");
+        return;
+      }
+      chatLog.error("Chat failed", { error });
+      if (error instanceof WollamaError) {
+        sendError(res, error.message, error.status);
+      } else {
+        sendError(res, "Chat failed");
+      }
     }
     return;
   }
 
   // Ollama models list endpoint
   if (url.pathname === "/api/tags" && method === "GET") {
-    console.log("[Tags] Returning model list");
+    tagsLog.info("Returning model list");
     sendJson(res, {
-      models: [
-        {
-          name: "gemini-browser",
-          model: "gemini-browser",
-          modified_at: new Date().toISOString(),
-          size: 0,
-          digest: "sha256:gemini",
-          details: {
-            format: "browser",
-            family: "gemini",
-            families: ["gemini"],
-            parameter_size: "0B",
-            quantization_level: "browser",
-          },
-        },
-        {
-          name: "chatgpt-browser",
-          model: "chatgpt-browser",
-          modified_at: new Date().toISOString(),
-          size: 0,
-          digest: "sha256:chatgpt",
-          details: {
-            format: "browser",
-            family: "chatgpt",
-            families: ["chatgpt"],
-            parameter_size: "0B",
-            quantization_level: "browser",
-          },
-        },
-      ],
+      models: listModels().map(({ name, metadata }) => ({
+        name,
+        model: name,
+        modified_at: new Date().toISOString(),
+        size: 0,
+        digest: `sha256:${metadata.family}`,
+        details: modelDetails(metadata),
+      })),
+    });
+    return;
+  }
+
+  // Ollama running models endpoint: models with a ready tab
+  if (url.pathname === "/api/ps" && method === "GET") {
+    const loaded = listAdapters().filter(({ metadata }) =>
+      getModelStatus(metadata.name)?.tabs.some((tab) => tab.ready)
+    );
+    sendJson(res, {
+      models: loaded.map(({ metadata }) => ({
+        name: metadata.name,
+        model: metadata.name,
+        size: 0,
+        digest: `sha256:${metadata.family}`,
+        details: modelDetails(metadata),
+        expires_at: NEVER_EXPIRES,
+        size_vram: 0,
+      })),
+    });
+    return;
+  }
+
+  // Ollama version endpoint
+  if (url.pathname === "/api/version" && method === "GET") {
+    sendJson(res, { version: packageInfo.version });
+    return;
+  }
+
+  // Wollama status: readiness, sign-in and recent failures per model
+  if (url.pathname === "/api/status" && method === "GET") {
+    sendJson(res, {
+      version: packageInfo.version,
+      models: listAdapters().map(({ metadata }) => modelStatus(metadata)),
+      selectors: getMatchedSelectors(),
     });
     return;
   }
 
   // Ollama show model endpoint
   if (url.pathname === "/api/show" && method === "POST") {
-    let modelName = "gemini-browser";
+    let modelName = "";
     try {
       const body = JSON.parse(await parseBody(req));
-      modelName = body.name || modelName;
+      modelName = body.model || body.name || modelName;
     } catch {
       // ignore json parse error
     }
 
-    console.log(`[Show] Model: ${modelName}`);
+    showLog.info(`Model: ${modelName}`);
 
-    // Determine model family for response details
-    const isChatGPT = modelName.includes("chatgpt");
-    const family = isChatGPT ? "chatgpt" : "gemini";
+    const metadata = getModelMetadata(modelName);
+    if (!metadata) {
+      sendJson(res, { error: `model '${modelName}' not found` }, 404);
+      return;
+    }
 
     sendJson(res, {
-      license: isChatGPT ? "OpenAI" : "Google",
+      license: metadata.license,
       modelfile: `FROM ${modelName}\nSYSTEM "You are a helpful assistant."`,
       parameters: "N/A",
       template: `{{ .Prompt }}`,
-      details: {
-        format: "browser",
-        family: family,
-        families: [family],
-        parameter_size: "0B",
-        quantization_level: "browser",
-      },
+      details: modelDetails(metadata),
     });
     return;
   }
 
+  // Prometheus metrics
+  if (url.pathname === "/metrics" && method === "GET") {
+    res.writeHead(200, {
+      "Content-Type": "text/plain; version=0.0.4; charset=utf-8",
+    });
+    res.end(renderMetrics());
+    return;
+  }
+
+  // OpenAI-compatible endpoints
+  if (url.pathname.startsWith("/v1/")) {
+    await handleOpenAI(req, res, url);
+    return;
+  }
+
   sendJson(res, { error: "Not Found" }, 404);
 }
 
-// Create server
-const server = createServer(handler);
+// Create server. Everything logged while serving a request carries its ID,
+// which is also returned to the client in the X-Request-Id header.
+const server = createServer((req, res) => {
+  const id = requestIdHeader(req) ?? newRequestId();
+  res.setHeader("X-Request-Id", id);
+  return withRequestId(id, () => handler(req, res));
+});
 
 // Graceful shutdown
 async function shutdown() {
-  console.log("\n[Server] Shutting down...");
-  // Close all adapters
-  for (const key in adapters) {
-    // deno-lint-ignore no-explicit-any
-    await (adapters as any)[key].close();
-  }
+  log.info("Shutting down...");
+  await closeAdapters();
   server.close();
   process.exit(0);
 }
@@ -292,15 +860,23 @@ async function shutdown() {
 process.on("SIGINT", shutdown);
 process.on("SIGTERM", shutdown);
 
-console.log("[Server] Starting on http://localhost:11434");
-console.log("[Server] Mode: Remote Debugging (CDP)");
-console.log(
-  `[Server] Profile: ${
-    values["default-profile"] ? "Default Chrome profile" : "Temporary profile"
-  }`,
+log.info(
+  `Starting on http://${config.host ?? "localhost"}:${config.port}`,
+);
+log.info("Mode: Remote Debugging (CDP)");
+log.info(
+  `Profile: ${
+    config.chrome.profile === "default"
+      ? "Default Chrome profile"
+      : config.chrome.profile === "temp"
+      ? "Temporary profile"
+      : `"${config.chrome.profile}" (${profileDir(config.chrome.profile)})`
+  }${config.chrome.headless ? ", headless" : ""}`,
+);
+log.info(
+  `Ensure Chrome is open on port ${config.chrome.cdpPort}`,
 );
-console.log("[Server] Ensure Chrome is open on port 9222\n");
 
-server.listen(11434, () => {
-  console.log("[Server] Ready to accept connections\n");
+server.listen(config.port, config.host, () => {
+  log.info("Ready to accept connections");
 });
@@ -0,0 +1,271 @@
+// markdown.ts - Shared HTML to markdown conversion for chat responses
+//
+// Every adapter reads its answer as HTML and converts it with a converter from
+// createConverter(), which knows the markup the sites have in common: GFM
+// tables, task lists and strikethrough, KaTeX/MathJax/MathML formulas turned
+// back into $...$ and $$...$$, links, citations and images. Adapters add their
+// site-specific rules on top (Turndown tries the most recently added rule
+// first). Clients pick the output per request: markdown (the default), plain
+// text derived from it, or the site's raw HTML.
+import TurndownService from "npm:turndown@7.2.2";
+import { UnsupportedFormatError } from "./errors.ts";
+
+export type OutputFormat = "markdown" | "text" | "html";
+
+export const OUTPUT_FORMATS: OutputFormat[] = ["markdown", "text", "html"];
+
+/** Validates a request's output format; unset means markdown */
+export function parseOutputFormat(value: unknown): OutputFormat {
+  if (value === undefined || value === null) return "markdown";
+  if (!OUTPUT_FORMATS.includes(value as OutputFormat)) {
+    throw new UnsupportedFormatError(String(value), OUTPUT_FORMATS);
+  }
+  return value as OutputFormat;
+}
+
+// Turndown hands rules DOM nodes from its own parser
+// deno-lint-ignore no-explicit-any
+type DomNode = any;
+
+const classes = (node: DomNode): string[] =>
+  (node.getAttribute?.("class") || "").split(/\s+/);
+
+const elementChildren = (node: DomNode): DomNode[] =>
+  Array.from(node.childNodes as ArrayLike<DomNode>)
+    .filter((child) => child.nodeType === 1);
+
+function closest(node: DomNode, name: string): DomNode | null {
+  for (let n = node.parentNode; n; n = n.parentNode) {
+    if (n.nodeName === name) return n;
+  }
+  return null;
+}
+
+// --- Tables ---
+
+function cellAlignment(cell: DomNode): string {
+  const align = (cell.getAttribute("align") ||
+    /text-align:\s*(\w+)/.exec(cell.getAttribute("style") || "")?.[1] ||
+    "").toLowerCase();
+  if (align === "center") return ":---:";
+  if (align === "right") return "---:";
+  if (align === "left") return ":---";
+  return "---";
+}
+
+function addTableRules(turndown: TurndownService) {
+  turndown.addRule("tableCell", {
+    filter: ["th", "td"],
+    replacement: (content: string, node: DomNode) => {
+      // Cells are single-line; a pipe would end the cell early
+      const text = content.trim().replace(/\s*\n+\s*/g, " ")
+        .replace(/\|/g, "\\|");
+      const first = elementChildren(node.parentNode)[0] === node;
+      return `${first ? "| " : " "}${text} |`;
+    },
+  });
+
+  turndown.addRule("tableRow", {
+    filter: "tr",
+    replacement: (content: string, node: DomNode) => {
+      // GFM needs a header row; the first row serves as one, <th> or not
+      const table = closest(node, "TABLE");
+      if (!table || table.querySelector("tr") !== node) {
+        return `\n${content}`;
+      }
+      const cells = elementChildren(node).map(cellAlignment);
+      return `\n${content}\n| ${cells.join(" | ")} |`;
+    },
+  });
+
+  turndown.addRule("tableSection", {
+    filter: ["thead", "tbody", "tfoot"],
+    replacement: (content: string) => content,
+  });
+
+  turndown.addRule("tableCaption", {
+    filter: "caption",
+    replacement: () => "",
+  });
+
+  turndown.addRule("table", {
+    filter: "table",
+    replacement: (content: string, node: DomNode) => {
+      const caption = node.querySelector("caption")?.textContent?.trim();
+      const rows = content.replace(/^\n+/, "");
+      return caption ? `\n\n${caption}\n\n${rows}\n\n` : `\n\n${rows}\n\n`;
+    },
+  });
+}
+
+// --- Math ---
+
+// TeX source of a rendered formula, from whatever the renderer kept of it
+function texSource(node: DomNode): string | null {
+  const data = node.getAttribute("data-math"); // Gemini
+  if (data) return data;
+  const annotation = node.querySelector(
+    'annotation[encoding="application/x-tex"]',
+  ); // KaTeX, MathML, MathJax's assistive MathML
+  if (annotation) return annotation.textContent;
+  return node.getAttribute("alttext") || null; // Bare MathML
+}
+
+function isBlockMath(node: DomNode): boolean {
+  const name = node.nodeName.toLowerCase();
+  const names = classes(node);
+  return names.includes("katex-display") || names.includes("math-block") ||
+    (name === "math" && node.getAttribute("display") === "block") ||
+    (name === "mjx-container" && node.getAttribute("display") === "true");
+}
+
+function isMath(node: DomNode): boolean {
+  const name = node.nodeName.toLowerCase();
+  const names = classes(node);
+  return names.includes("katex") || names.includes("math-inline") ||
+    name === "math" || name === "mjx-container" || isBlockMath(node);
+}
+
+function addMathRules(turndown: TurndownService) {
+  turndown.addRule("math", {
+    filter: (node: DomNode) => isMath(node) && texSource(node) !== null,
+    replacement: (_content: string, node: DomNode) => {
+      const tex = (texSource(node) ?? "").trim();
+      return isBlockMath(node) ? `\n\n$$\n${tex}\n$$\n\n` : `$${tex}$`;
+    },
+  });
+}
+
+// --- Links, citations and images ---
+
+function imageSource(node: DomNode): string {
+  // Lazy-loaded images keep the real URL aside until they scroll into view
+  const srcset = node.getAttribute("srcset")?.split(",")[0]?.trim()
+    .split(/\s+/)[0];
+  return node.getAttribute("src") || node.getAttribute("data-src") ||
+    srcset || "";
+}
+
+function addLinkRules(turndown: TurndownService) {
+  turndown.addRule("link", {
+    filter: (node: DomNode) =>
+      node.nodeName === "A" && !!node.getAttribute("href"),
+    replacement: (content: string, node: DomNode) => {
+      const href: string = node.getAttribute("href");
+      const text = content.trim().replace(/\s*\n+\s*/g, " ");
+      // In-page anchors (footnote back-links, headings) mean nothing outside
+      if (href.startsWith("#") || href.startsWith("javascript:")) return text;
+      const url = href.replace(/([()])/g, "\\$1");
+      if (!text) return `<${href}>`;
+      const title = node.getAttribute("title")?.replace(/"/g, '\\"');
+      return title ? `[${text}](${url} "${title}")` : `[${text}](${url})`;
+    },
+  });
+
+  // Citation markers stay links; other super/subscripts have no markdown form
+  turndown.addRule("supSub", {
+    filter: ["sup", "sub"],
+    replacement: (content: string, node: DomNode) => {
+      const name = node.nodeName.toLowerCase();
+      if (node.querySelector("a[href]")) return content;
+      return content ? `<${name}>${content}</${name}>` : "";
+    },
+  });
+
+  turndown.addRule("image", {
+    filter: "img",
+    replacement: (_content: string, node: DomNode) => {
+      // Icons and favicons inside citation chips are decoration
+      if (
+        node.getAttribute("aria-hidden") === "true" ||
+        node.getAttribute("role") === "presentation"
+      ) return "";
+      const alt = (node.getAttribute("alt") || "").replace(/\s+/g, " ").trim();
+      const src = imageSource(node);
+      // blob: URLs only resolve inside the page that created them
+      if (!src || src.startsWith("blob:")) return alt ? `[${alt}]` : "";
+      return `![${alt}](${src.replace(/([()])/g, "\\$1")})`;
+    },
+  });
+}
+
+// --- GFM extras ---
+
+function addGfmRules(turndown: TurndownService) {
+  turndown.addRule("strikethrough", {
+    filter: ["del", "s", "strike"],
+    replacement: (content: string) => content.trim() ? `~~${content}~~` : "",
+  });
+
+  turndown.addRule("taskListItem", {
+    filter: (node: DomNode) =>
+      node.nodeName === "INPUT" && node.getAttribute("type") === "checkbox" &&
+      node.parentNode?.nodeName === "LI",
+    replacement: (_content: string, node: DomNode) => {
+      const box = node.hasAttribute("checked") ? "[x]" : "[ ]";
+      const next = node.nextSibling?.textContent ?? "";
+      return /^\s/.test(next) ? box : `${box} `;
+    },
+  });
+}
+
+/** A Turndown converter with the rules shared by all sites */
+export function createConverter(): TurndownService {
+  const turndown = new TurndownService({
+    codeBlockStyle: "fenced",
+    headingStyle: "atx",
+    bulletListMarker: "-",
+  });
+  addTableRules(turndown);
+  addMathRules(turndown);
+  addLinkRules(turndown);
+  addGfmRules(turndown);
+  return turndown;
+}
+
+// --- Plain text ---
+
+const FENCED_CODE = /^(`{3,})[^\n]*\n([\s\S]*?)\n?\1[ \t]*$/gm;
+
+// Markdown syntax outside code blocks, replaced by the text it marks up
+function stripInline(markdown: string): string {
+  return markdown
+    .replace(/^\$\$\n?([\s\S]*?)\n?\$\$$/gm, "$1")
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/\[([^\]]*)\]\((?:\\\)|[^)])*\)/g, "$1")
+    .replace(/<(https?:[^>\s]+)>/g, "$1")
+    .replace(/<\/?(sup|sub)>/g, "")
+    .replace(/^#{1,6}\s+/gm, "")
+    .replace(/^>\s?/gm, "")
+    .replace(/^\|(?:\s*:?-+:?\s*\|)+$\n?/gm, "")
+    .replace(
+      /^\| (.*) \|$/gm,
+      (_, row: string) => row.split(/ (?<!\\)\| /).join("\t"),
+    )
+    .replace(/(\*\*|__|~~)(?=\S)([\s\S]*?\S)\1/g, "$2")
+    .replace(/(^|[^\w*\\])([*_])(?=\S)([^*_\n]*?\S)\2(?![\w*])/g, "$1$3")
+    .replace(/`([^`\n]+)`/g, "$1")
+    .replace(/\\([\\`*_{}[\]()#+\-.!|~<>$=])/g, "$1");
+}
+
+/** Plain text from converted markdown; code blocks keep their contents */
+export function markdownToText(markdown: string): string {
+  let text = "";
+  let last = 0;
+  for (const match of markdown.matchAll(FENCED_CODE)) {
+    text += stripInline(markdown.slice(last, match.index)) + match[2];
+    last = match.index + match[0].length;
+  }
+  return text + stripInline(markdown.slice(last));
+}
+
+/** A response in the requested format, from its HTML and converted markdown */
+export function formatResponse(
+  html: string,
+  markdown: string,
+  format: OutputFormat = "markdown",
+): string {
+  if (format === "html") return html;
+  if (format === "text") return markdownToText(markdown);
+  return markdown;
+}
@@ -0,0 +1,182 @@
+// metrics.ts - Prometheus metrics served at /metrics
+//
+// A minimal in-process registry: counters and histograms are updated where
+// things happen, gauges are read from a callback when /metrics is scraped.
+// Output follows the Prometheus text exposition format (version 0.0.4).
+
+export type Labels = Record<string, string>;
+
+interface Metric {
+  render(): string[];
+}
+
+const metrics: Metric[] = [];
+
+// Label values may contain anything; the format escapes \, " and newlines
+const escape = (value: string) =>
+  value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([k, v]) => `${k}="${escape(v)}"`);
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+// Series are keyed by their rendered label set
+class Series<T> {
+  private values = new Map<string, { labels: Labels; value: T }>();
+
+  constructor(private create: () => T) {}
+
+  get(labels: Labels): T {
+    const key = formatLabels(labels);
+    let entry = this.values.get(key);
+    if (!entry) {
+      entry = { labels, value: this.create() };
+      this.values.set(key, entry);
+    }
+    return entry.value;
+  }
+
+  entries() {
+    return this.values.values();
+  }
+}
+
+export class Counter implements Metric {
+  private series = new Series(() => ({ count: 0 }));
+
+  constructor(readonly name: string, readonly help: string) {
+    metrics.push(this);
+  }
+
+  inc(labels: Labels = {}, amount = 1) {
+    this.series.get(labels).count += amount;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`];
+    lines.push(`# TYPE ${this.name} counter`);
+    for (const { labels, value } of this.series.entries()) {
+      lines.push(`${this.name}${formatLabels(labels)} ${value.count}`);
+    }
+    return lines;
+  }
+}
+
+// Seconds; browser requests range from sub-second UI steps to long answers
+const DEFAULT_BUCKETS = [0.1, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300, 600];
+
+export class Histogram implements Metric {
+  private series = new Series(() => ({
+    counts: this.buckets.map(() => 0),
+    sum: 0,
+    count: 0,
+  }));
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private buckets = DEFAULT_BUCKETS,
+  ) {
+    metrics.push(this);
+  }
+
+  observe(labels: Labels, seconds: number) {
+    const value = this.series.get(labels);
+    this.buckets.forEach((bound, i) => {
+      if (seconds <= bound) value.counts[i]++;
+    });
+    value.sum += seconds;
+    value.count++;
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`];
+    lines.push(`# TYPE ${this.name} histogram`);
+    for (const { labels, value } of this.series.entries()) {
+      this.buckets.forEach((bound, i) => {
+        const bucket = formatLabels({ ...labels, le: String(bound) });
+        lines.push(`${this.name}_bucket${bucket} ${value.counts[i]}`);
+      });
+      const inf = formatLabels({ ...labels, le: "+Inf" });
+      lines.push(`${this.name}_bucket${inf} ${value.count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${value.sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${value.count}`);
+    }
+    return lines;
+  }
+}
+
+export class Gauge implements Metric {
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private collect: () => { labels: Labels; value: number }[],
+  ) {
+    metrics.push(this);
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`];
+    lines.push(`# TYPE ${this.name} gauge`);
+    for (const { labels, value } of this.collect()) {
+      lines.push(`${this.name}${formatLabels(labels)} ${value}`);
+    }
+    return lines;
+  }
+}
+
+/** Every registered metric in the Prometheus text format */
+export function renderMetrics(): string {
+  return metrics.flatMap((metric) => metric.render()).join("\n") + "\n";
+}
+
+// --- Wollama metrics ---
+
+export const requestsTotal = new Counter(
+  "wollama_requests_total",
+  "API requests by model, endpoint and response status",
+);
+
+export const requestDuration = new Histogram(
+  "wollama_request_duration_seconds",
+  "Time from receiving an API request until its response ended",
+);
+
+export const phaseDuration = new Histogram(
+  "wollama_phase_duration_seconds",
+  "Time spent in each phase of driving a chat site",
+);
+
+export const errorsTotal = new Counter(
+  "wollama_errors_total",
+  "Failed adapter requests by model and error kind",
+);
+
+export const chromeLaunches = new Counter(
+  "wollama_chrome_launches_total",
+  "Chrome instances launched by Wollama, relaunches after a crash included",
+);
+
+/**
+ * The phases of serving one request on a tab, in order: opening the tab,
+ * uploading files, typing and submitting, the site generating and reading
+ * the finished answer back.
+ */
+export type RequestPhase = "ready" | "upload" | "send" | "generate" | "scrape";
+
+/** Times consecutive phases; each mark() ends the phase running until then */
+export class PhaseTimer {
+  private start = performance.now();
+
+  constructor(private model: string) {}
+
+  mark(phase: RequestPhase) {
+    const now = performance.now();
+    phaseDuration.observe(
+      { model: this.model, phase },
+      (now - this.start) / 1000,
+    );
+    this.start = now;
+  }
+}
@@ -0,0 +1,44 @@
+// model-picker.ts - Select a sub-model in a site's model picker menu
+import { Page } from "npm:playwright@1.56.1";
+import { VariantUnavailableError } from "./errors.ts";
+import type { SelectorSet } from "./selectors.ts";
+import { Logger } from "./logger.ts";
+
+const log = new Logger("Models");
+
+export interface ModelPicker<K extends string> {
+  selectors: SelectorSet<K>;
+  /** Button that shows the current model and opens the menu */
+  trigger: K;
+  /** Entries of the open menu */
+  option: K;
+  /** Variant tag -> text of its menu entry */
+  labels: Record<string, RegExp>;
+}
+
+// Skips the menu when the button already shows the wanted model, so a pinned
+// variant costs nothing after the first request
+export async function selectVariant<K extends string>(
+  page: Page,
+  picker: ModelPicker<K>,
+  variant: string,
+) {
+  const { selectors, labels } = picker;
+  const site = selectors.site;
+  const label = labels[variant];
+  if (!label) throw new VariantUnavailableError(site, variant);
+
+  const trigger = (await selectors.resolve(page, picker.trigger)).first();
+  if (label.test(await trigger.innerText())) return;
+
+  log.info(`${site}: switching to "${variant}"...`);
+  await trigger.click();
+
+  const options = await selectors.resolve(page, picker.option);
+  const option = options.filter({ hasText: label }).first();
+  if (await option.count() === 0) {
+    await page.keyboard.press("Escape");
+    throw new VariantUnavailableError(site, variant);
+  }
+  await option.click();
+}
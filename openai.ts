@@ -0,0 +1,407 @@
+// openai.ts - OpenAI-compatible endpoints backed by the adapter registry
+import {
+  InvalidAttachmentError,
+  RequestAbortedError,
+  WollamaError,
+} from "./errors.ts";
+import {
+  disconnectSignal,
+  parseBody,
+  routeOptions,
+  sendJson,
+  sessionHeader,
+  trackRequest,
+} from "./http.ts";
+import {
+  getModelMetadata,
+  listModels,
+  routeFor,
+  runRouted,
+} from "./routing.ts";
+import { sendChat } from "./conversations.ts";
+import type { ChatMessage } from "./prompt.ts";
+import { IncomingMessage, ServerResponse } from "node:http";
+import { randomUUID } from "node:crypto";
+import { Logger } from "./logger.ts";
+import { parseOutputFormat } from "./markdown.ts";
+
+const chatLog = new Logger("OpenAI Chat");
+const completionLog = new Logger("OpenAI Completion");
+const modelsLog = new Logger("OpenAI Models");
+
+interface OpenAIContentPart {
+  type: string;
+  text?: string;
+  image_url?: { url: string };
+}
+
+interface OpenAIChatRequest {
+  model: string;
+  messages: Array<{
+    role: string;
+    content: string | OpenAIContentPart[] | null;
+  }>;
+  stream?: boolean;
+  /** Wollama extension: pin the request to a browser chat thread */
+  session_id?: string;
+  /** Wollama extension: "markdown" (default), "text" or "html" */
+  output_format?: string;
+}
+
+interface OpenAICompletionRequest {
+  model: string;
+  prompt: string | string[];
+  stream?: boolean;
+  /** Wollama extension: "markdown" (default), "text" or "html" */
+  output_format?: string;
+}
+
+// Usage is unknown for browser models; clients still expect the field
+const usage = { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+
+function sendOpenAIError(
+  res: ServerResponse,
+  message: string,
+  status: number,
+  type: string,
+  code: string | null = null,
+) {
+  if (res.headersSent) {
+    // Mid-stream failure: report it as a final SSE event
+    res.end(`data: ${JSON.stringify({ error: { message, type, code } })}\n\n`);
+    return;
+  }
+  sendJson(res, { error: { message, type, param: null, code } }, status);
+}
+
+function sendFailure(res: ServerResponse, error: unknown, fallback: string) {
+  if (!(error instanceof WollamaError)) {
+    sendOpenAIError(res, fallback, 500, "server_error");
+    return;
+  }
+  const type = error.status === 429
+    ? "rate_limit_error"
+    : error.status === 401
+    ? "authentication_error"
+    : error.status === 403
+    ? "permission_error"
+    : error.status < 500
+    ? "invalid_request_error"
+    : "server_error";
+  sendOpenAIError(res, error.message, error.status, type);
+}
+
+// SSE headers are sent lazily so errors before the first chunk keep their status
+function writeSse(res: ServerResponse, data: object | string) {
+  if (!res.headersSent) {
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Connection": "keep-alive",
+      "Access-Control-Allow-Origin": "*",
+    });
+  }
+  const payload = typeof data === "string" ? data : JSON.stringify(data);
+  res.write(`data: ${payload}\n\n`);
+}
+
+function toChatMessages(
+  messages: OpenAIChatRequest["messages"],
+): ChatMessage[] {
+  return messages.map((m) => {
+    if (typeof m.content === "string") {
+      return { role: m.role, content: m.content };
+    }
+
+    const parts = m.content ?? [];
+    const text = parts
+      .filter((part) => part.type === "text")
+      .map((part) => part.text ?? "")
+      .join("\n");
+
+    // Images must be inlined; the browser cannot fetch remote URLs for us
+    const images = parts
+      .filter((part) => part.type === "image_url")
+      .map((part) => {
+        const url = part.image_url?.url ?? "";
+        if (!url.startsWith("data:")) {
+          throw new InvalidAttachmentError(
+            "Only base64 data: URLs are supported for image_url",
+          );
+        }
+        return url;
+      });
+
+    return { role: m.role, content: text, images };
+  });
+}
+
+async function readJson<T>(
+  req: IncomingMessage,
+  res: ServerResponse,
+): Promise<T | null> {
+  try {
+    return JSON.parse(await parseBody(req));
+  } catch {
+    sendOpenAIError(
+      res,
+      "Could not parse request body as JSON",
+      400,
+      "invalid_request_error",
+    );
+    return null;
+  }
+}
+
+function modelNotFound(res: ServerResponse, model: string) {
+  sendOpenAIError(
+    res,
+    `The model '${model}' does not exist`,
+    404,
+    "invalid_request_error",
+    "model_not_found",
+  );
+}
+
+async function handleChatCompletions(
+  req: IncomingMessage,
+  res: ServerResponse,
+) {
+  const body = await readJson<OpenAIChatRequest>(req, res);
+  if (!body) return;
+
+  chatLog.info(
+    `Model: ${body.model}, Messages: ${body.messages?.length}`,
+  );
+
+  if (!Array.isArray(body.messages)) {
+    sendOpenAIError(
+      res,
+      "'messages' is a required property",
+      400,
+      "invalid_request_error",
+    );
+    return;
+  }
+
+  if (routeFor(body.model).length === 0) {
+    modelNotFound(res, body.model);
+    return;
+  }
+  trackRequest(res, "/v1/chat/completions", body.model);
+
+  const id = `chatcmpl-${randomUUID()}`;
+  const created = Math.floor(Date.now() / 1000);
+
+  // With fallbacks the answering model may differ from the requested one
+  let servedBy = body.model;
+
+  const chunk = (delta: object, finishReason: string | null) => ({
+    id,
+    object: "chat.completion.chunk",
+    created,
+    model: servedBy,
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+  });
+
+  const signal = disconnectSignal(res);
+
+  try {
+    const messages = toChatMessages(body.messages);
+    const format = parseOutputFormat(body.output_format);
+
+    const { model, result: response } = await runRouted(
+      body.model,
+      (adapter, variant) => {
+        servedBy = variant
+          ? `${adapter.metadata.name}:${variant}`
+          : adapter.metadata.name;
+        return sendChat(adapter, messages, {
+          sessionId: body.session_id ?? sessionHeader(req),
+          signal,
+          variant,
+          format,
+          onDelta: body.stream
+            ? (delta) => {
+              // Sent with the first delta so nothing is written before the
+              // request could still move to a fallback model
+              if (!res.headersSent) {
+                writeSse(res, chunk({ role: "assistant", content: "" }, null));
+              }
+              writeSse(res, chunk({ content: delta }, null));
+            }
+            : undefined,
+        });
+      },
+      routeOptions(res, signal),
+    );
+
+    if (body.stream) {
+      if (!res.headersSent) {
+        writeSse(res, chunk({ role: "assistant", content: "" }, null));
+      }
+      writeSse(res, chunk({}, "stop"));
+      writeSse(res, "[DONE]");
+      res.end();
+    } else {
+      sendJson(res, {
+        id,
+        object: "chat.completion",
+        created,
+        model,
+        choices: [{
+          index: 0,
+          message: { role: "assistant", content: response },
+          finish_reason: "stop",
+        }],
+        usage,
+      });
+    }
+  } catch (error) {
+    if (error instanceof RequestAbortedError) {
+      chatLog.info("Client disconnected, request cancelled");
+      return;
+    }
+    chatLog.error("Chat completion failed", { error });
+    sendFailure(res, error, "Chat completion failed");
+  }
+}
+
+async function handleCompletions(req: IncomingMessage, res: ServerResponse) {
+  const body = await readJson<OpenAICompletionRequest>(req, res);
+  if (!body) return;
+
+  const prompt = Array.isArray(body.prompt)
+    ? body.prompt.join("\n")
+    : body.prompt;
+
+  completionLog.info(
+    `Model: ${body.model}, Prompt length: ${prompt?.length}`,
+  );
+
+  if (typeof prompt !== "string") {
+    sendOpenAIError(
+      res,
+      "'prompt' is a required property",
+      400,
+      "invalid_request_error",
+    );
+    return;
+  }
+
+  if (routeFor(body.model).length === 0) {
+    modelNotFound(res, body.model);
+    return;
+  }
+  trackRequest(res, "/v1/completions", body.model);
+
+  const id = `cmpl-${randomUUID()}`;
+  const created = Math.floor(Date.now() / 1000);
+
+  let servedBy = body.model;
+
+  const completion = (text: string, finishReason: string | null) => ({
+    id,
+    object: "text_completion",
+    created,
+    model: servedBy,
+    choices: [{
+      index: 0,
+      text,
+      logprobs: null,
+      finish_reason: finishReason,
+    }],
+  });
+
+  const signal = disconnectSignal(res);
+
+  try {
+    const format = parseOutputFormat(body.output_format);
+    const { result: response } = await runRouted(
+      body.model,
+      async (adapter, variant) => {
+        servedBy = variant
+          ? `${adapter.metadata.name}:${variant}`
+          : adapter.metadata.name;
+        // Completions are one-shot; keep them out of saved chat threads
+        await adapter.openConversation?.(null);
+        return adapter.sendMessage(prompt, [], {
+          signal,
+          variant,
+          format,
+          onDelta: body.stream
+            ? (delta) => writeSse(res, completion(delta, null))
+            : undefined,
+        });
+      },
+      routeOptions(res, signal),
+    );
+
+    if (body.stream) {
+      writeSse(res, completion("", "stop"));
+      writeSse(res, "[DONE]");
+      res.end();
+    } else {
+      sendJson(res, { ...completion(response, "stop"), usage });
+    }
+  } catch (error) {
+    if (error instanceof RequestAbortedError) {
+      completionLog.info("Client disconnected, request cancelled");
+      return;
+    }
+    completionLog.error("Completion failed", { error });
+    sendFailure(res, error, "Completion failed");
+  }
+}
+
+function toOpenAIModel(name: string, ownedBy: string) {
+  return { id: name, object: "model", created: 0, owned_by: ownedBy };
+}
+
+export async function handleOpenAI(
+  req: IncomingMessage,
+  res: ServerResponse,
+  url: URL,
+) {
+  const method = req.method || "GET";
+
+  if (url.pathname === "/v1/chat/completions" && method === "POST") {
+    await handleChatCompletions(req, res);
+    return;
+  }
+
+  if (url.pathname === "/v1/completions" && method === "POST") {
+    await handleCompletions(req, res);
+    return;
+  }
+
+  if (url.pathname === "/v1/models" && method === "GET") {
+    modelsLog.info("Returning model list");
+    sendJson(res, {
+      object: "list",
+      data: listModels().map(({ name, metadata }) =>
+        toOpenAIModel(name, metadata.license)
+      ),
+    });
+    return;
+  }
+
+  if (url.pathname.startsWith("/v1/models/") && method === "GET") {
+    const name = decodeURIComponent(url.pathname.slice("/v1/models/".length));
+    const metadata = getModelMetadata(name);
+    if (!metadata) {
+      modelNotFound(res, name);
+      return;
+    }
+    sendJson(res, toOpenAIModel(name, metadata.license));
+    return;
+  }
+
+  sendOpenAIError(
+    res,
+    `Unknown request URL: ${method} ${url.pathname}`,
+    404,
+    "invalid_request_error",
+    "unknown_url",
+  );
+}
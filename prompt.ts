@@ -0,0 +1,35 @@
+// prompt.ts - Flatten API requests into a single prompt for the chat box
+import type { AttachmentSource } from "./attachments.ts";
+
+export interface ChatMessage extends AttachmentSource {
+  role: string;
+  content: string;
+}
+
+export function buildGeneratePrompt(prompt: string, system?: string): string {
+  if (system) {
+    return `${system}\n\n${prompt}`;
+  }
+  return prompt;
+}
+
+export function buildChatPrompt(messages: ChatMessage[]): string {
+  const systemMsg = messages.find((m) => m.role === "system");
+  const userMessages = messages.filter((m) => m.role !== "system");
+
+  // A lone user turn is sent as-is; role labels only help multi-turn histories
+  if (userMessages.length === 1 && userMessages[0].role === "user") {
+    return buildGeneratePrompt(userMessages[0].content, systemMsg?.content);
+  }
+
+  let fullPrompt = "";
+  if (systemMsg) {
+    fullPrompt = `${systemMsg.content}\n\n`;
+  }
+
+  for (const msg of userMessages) {
+    fullPrompt += `${msg.role}: ${msg.content}\n`;
+  }
+
+  return fullPrompt;
+}
@@ -0,0 +1,143 @@
+// routing.ts - Retry requests on another adapter when a site can't serve them
+//
+// A model may list fallbacks (`--fallback gemini-browser=chatgpt-browser`),
+// and the virtual model "auto-browser" tries every registered adapter in
+// order. A request moves on to the next candidate when a site reports a usage
+// limit, a sign-in wall or a captcha, or can't take the request's attachments.
+import {
+  type AdapterMetadata,
+  type BrowserChatAdapter,
+  getRegistration,
+  getScheduler,
+  listAdapters,
+  parseModelName,
+} from "./adapter.ts";
+import {
+  AttachmentsNotSupportedError,
+  CaptchaDetectedError,
+  QuotaExceededError,
+  SignInRequiredError,
+} from "./errors.ts";
+import { Logger } from "./logger.ts";
+
+const log = new Logger("Route");
+
+export const AUTO_MODEL = "auto-browser";
+
+const autoMetadata: AdapterMetadata = {
+  name: AUTO_MODEL,
+  family: "auto",
+  license: "N/A",
+  site: "",
+};
+
+// model -> models to try after it, in order
+const fallbacks = new Map<string, string[]>();
+
+export function configureFallbacks(routes: Record<string, string[]>) {
+  for (const [model, targets] of Object.entries(routes)) {
+    fallbacks.set(model, targets);
+  }
+}
+
+export interface ModelEntry {
+  /** Name clients request, e.g. "gemini-browser:pro" */
+  name: string;
+  metadata: AdapterMetadata;
+}
+
+/** Every requestable model name (variants included) plus the auto model */
+export function listModels(): ModelEntry[] {
+  const entries: ModelEntry[] = [];
+  for (const { metadata } of listAdapters()) {
+    entries.push({ name: metadata.name, metadata });
+    for (const variant of metadata.variants ?? []) {
+      entries.push({ name: `${metadata.name}:${variant}`, metadata });
+    }
+  }
+  entries.push({ name: AUTO_MODEL, metadata: autoMetadata });
+  return entries;
+}
+
+export function getModelMetadata(model: string): AdapterMetadata | null {
+  if (model === AUTO_MODEL) return autoMetadata;
+  return getRegistration(model)?.metadata ?? null;
+}
+
+/** Models to try for a request, in order; empty if the model is unknown */
+export function routeFor(model: string): string[] {
+  if (typeof model !== "string") return [];
+  if (model === AUTO_MODEL) {
+    return fallbacks.get(AUTO_MODEL) ??
+      listAdapters().map((r) => r.metadata.name);
+  }
+  if (!getRegistration(model)) return [];
+  // A tagged model without its own list uses the base model's fallbacks
+  const targets = fallbacks.get(model) ??
+    fallbacks.get(parseModelName(model).base) ?? [];
+  return [model, ...targets];
+}
+
+function canFallBack(error: unknown): boolean {
+  return error instanceof QuotaExceededError ||
+    error instanceof SignInRequiredError ||
+    error instanceof CaptchaDetectedError ||
+    error instanceof AttachmentsNotSupportedError;
+}
+
+export interface RouteOptions {
+  signal?: AbortSignal;
+  /** Called before each attempt with the model about to serve the request */
+  onAttempt?: (model: string) => void;
+  /**
+   * Returns true once part of a response reached the client; the request
+   * then can't be replayed elsewhere and the error is passed on instead
+   */
+  committed?: () => boolean;
+}
+
+/**
+ * Runs `task` on the first model of the route that can serve it, passing the
+ * variant tag to select, if any. Resolves with the result and the model that
+ * actually answered.
+ */
+export async function runRouted<T>(
+  model: string,
+  task: (adapter: BrowserChatAdapter, variant?: string) => Promise<T>,
+  options: RouteOptions = {},
+): Promise<{ model: string; result: T }> {
+  const route = routeFor(model);
+  let lastError: unknown = new Error(`No adapters available for ${model}`);
+
+  for (const [i, candidate] of route.entries()) {
+    const scheduler = getScheduler(candidate);
+    if (!scheduler) {
+      log.warn(`Unknown fallback model ${candidate}, skipping`);
+      continue;
+    }
+
+    options.onAttempt?.(candidate);
+    try {
+      const { variant } = parseModelName(candidate);
+      const result = await scheduler.run(
+        (adapter) => task(adapter, variant),
+        options.signal,
+      );
+      return { model: candidate, result };
+    } catch (error) {
+      if (!canFallBack(error) || options.committed?.()) throw error;
+      lastError = error;
+
+      if (route.length === 1) break;
+      const next = route[i + 1];
+      const reason = error instanceof Error ? error.message : String(error);
+      log.info(
+        next
+          ? `${candidate} unavailable (${reason}), trying ${next}`
+          : `${candidate} unavailable (${reason}), no fallback left`,
+      );
+    }
+  }
+
+  throw lastError;
+}
@@ -0,0 +1,223 @@
+// scheduler.ts - Per-model FIFO queue dispatching requests to a pool of tabs
+import type { BrowserChatAdapter, TabStatus } from "./adapter.ts";
+import {
+  BrowserDisconnectedError,
+  QueueClosedError,
+  QueueFullError,
+  QueueTimeoutError,
+  RequestAbortedError,
+  ResponseTimeoutError,
+  SignInRequiredError,
+  WollamaError,
+} from "./errors.ts";
+import { getTimeout, type Phase } from "./timeouts.ts";
+import { errorsTotal, PhaseTimer } from "./metrics.ts";
+import { Logger } from "./logger.ts";
+
+const log = new Logger("Queue");
+
+export interface SchedulerOptions {
+  /** Number of tabs (adapter instances) serving this model in parallel */
+  poolSize: number;
+  /** Requests allowed to wait for a free tab before rejecting with 429 */
+  maxQueueDepth: number;
+  /** How long a request may wait for its turn before rejecting with 503 (0 = forever) */
+  queueTimeoutMs: number;
+}
+
+export interface SchedulerStatus {
+  /** One entry per tab opened so far */
+  tabs: TabStatus[];
+  /** Tabs currently serving a request */
+  busy: number;
+  /** Requests waiting for a free tab */
+  queueDepth: number;
+  /** Result of the last sign-in check, null before the first request */
+  signedIn: boolean | null;
+  lastError: { message: string; status: number; at: Date } | null;
+  lastSuccess: Date | null;
+}
+
+// Playwright reports its own timeouts and lost connections as plain errors.
+// Ready and send steps run under their phase's default page timeout, so the
+// phase we were in tells which limit ran out.
+function classify(error: unknown, model: string, phase: Phase): unknown {
+  if (!(error instanceof Error) || error instanceof WollamaError) return error;
+  if (error.name === "TimeoutError") {
+    return new ResponseTimeoutError(model, phase, getTimeout(phase), {
+      cause: error,
+    });
+  }
+  if (/has been closed|Target closed|disconnected/i.test(error.message)) {
+    return new BrowserDisconnectedError(error.message, { cause: error });
+  }
+  return error;
+}
+
+interface Waiter {
+  resolve: (adapter: BrowserChatAdapter) => void;
+  reject: (error: Error) => void;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+// Each adapter instance owns a single tab, so two concurrent requests on the
+// same instance would type into the same input box and both read "the last"
+// response. The scheduler hands every request an idle instance from the pool,
+// opening tabs lazily up to `poolSize`; the rest wait in arrival order.
+export class AdapterScheduler {
+  private adapters: BrowserChatAdapter[] = [];
+  private idle: BrowserChatAdapter[] = [];
+  private closed = false;
+  private waiting: Waiter[] = [];
+  private signedIn: boolean | null = null;
+  private lastError: SchedulerStatus["lastError"] = null;
+  private lastSuccess: Date | null = null;
+
+  constructor(
+    readonly name: string,
+    private create: () => BrowserChatAdapter,
+    private options: SchedulerOptions,
+  ) {}
+
+  /** Number of requests waiting for a free tab */
+  get depth(): number {
+    return this.waiting.length;
+  }
+
+  status(): SchedulerStatus {
+    return {
+      tabs: this.adapters.map((adapter) => adapter.getTabStatus()),
+      busy: this.adapters.length - this.idle.length,
+      queueDepth: this.waiting.length,
+      signedIn: this.signedIn,
+      lastError: this.lastError,
+      lastSuccess: this.lastSuccess,
+    };
+  }
+
+  /** A request whose `signal` aborts while queued leaves the queue without running */
+  async run<T>(
+    task: (adapter: BrowserChatAdapter) => Promise<T>,
+    signal?: AbortSignal,
+  ): Promise<T> {
+    const adapter = await this.acquire(signal);
+    let phase: Phase = "ready";
+    const timer = new PhaseTimer(this.name);
+    try {
+      // The first tab reuses an existing site tab, the others get their own
+      await adapter.ensureReady({
+        newTab: this.adapters.indexOf(adapter) > 0,
+        ensureSignedIn: true,
+      });
+      this.signedIn = true;
+      timer.mark("ready");
+      phase = "send";
+      const result = await task(adapter);
+      this.lastSuccess = new Date();
+      return result;
+    } catch (cause) {
+      const error = classify(cause, this.name, phase);
+      this.record(error);
+      // Invalid requests never touched the tab and blocked pages (sign-in,
+      // captcha, limits) need the user rather than a new tab; anything else
+      // may have left it mid-generation or crashed, so start fresh next time
+      if (!(error instanceof WollamaError && error.status < 500)) {
+        log.info(`${this.name}: recycling tab after failure`);
+        await adapter.resetTab().catch(() => {});
+      }
+      throw error;
+    } finally {
+      this.release(adapter);
+    }
+  }
+
+  async close() {
+    this.closed = true;
+    for (const waiter of this.waiting.splice(0)) {
+      clearTimeout(waiter.timer);
+      waiter.reject(new QueueClosedError(this.name));
+    }
+    for (const adapter of this.adapters) {
+      await adapter.close();
+    }
+    this.adapters = [];
+    this.idle = [];
+  }
+
+  private acquire(signal?: AbortSignal): Promise<BrowserChatAdapter> {
+    if (this.closed) {
+      return Promise.reject(new QueueClosedError(this.name));
+    }
+    if (signal?.aborted) {
+      return Promise.reject(new RequestAbortedError());
+    }
+
+    const idle = this.idle.pop();
+    if (idle) return Promise.resolve(idle);
+
+    if (this.adapters.length < this.options.poolSize) {
+      const adapter = this.create();
+      this.adapters.push(adapter);
+      return Promise.resolve(adapter);
+    }
+
+    if (this.waiting.length >= this.options.maxQueueDepth) {
+      return Promise.reject(new QueueFullError(this.name, this.waiting.length));
+    }
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => {
+        clearTimeout(waiter.timer);
+        this.waiting = this.waiting.filter((w) => w !== waiter);
+        log.info(`${this.name}: queued request cancelled`);
+        reject(new RequestAbortedError());
+      };
+      const waiter: Waiter = {
+        resolve: (adapter) => {
+          signal?.removeEventListener("abort", onAbort);
+          resolve(adapter);
+        },
+        reject: (error) => {
+          signal?.removeEventListener("abort", onAbort);
+          reject(error);
+        },
+      };
+      const timeoutMs = this.options.queueTimeoutMs;
+      if (timeoutMs > 0) {
+        waiter.timer = setTimeout(() => {
+          this.waiting = this.waiting.filter((w) => w !== waiter);
+          waiter.reject(new QueueTimeoutError(this.name, timeoutMs));
+        }, timeoutMs);
+      }
+      signal?.addEventListener("abort", onAbort, { once: true });
+      this.waiting.push(waiter);
+      log.info(
+        `${this.name}: request queued (${this.waiting.length} waiting)`,
+      );
+    });
+  }
+
+  // Every failure is counted, but a client hanging up says nothing about the
+  // site, so it doesn't become the last error
+  private record(error: unknown) {
+    const kind = error instanceof Error ? error.name : "Error";
+    errorsTotal.inc({ model: this.name, kind });
+    if (error instanceof RequestAbortedError) return;
+    if (error instanceof SignInRequiredError) this.signedIn = false;
+    this.lastError = {
+      message: error instanceof Error ? error.message : String(error),
+      status: error instanceof WollamaError ? error.status : 500,
+      at: new Date(),
+    };
+  }
+
+  private release(adapter: BrowserChatAdapter) {
+    const next = this.waiting.shift();
+    if (next) {
+      clearTimeout(next.timer);
+      next.resolve(adapter);
+    } else {
+      this.idle.push(adapter);
+    }
+  }
+}
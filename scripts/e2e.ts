@@ -0,0 +1,340 @@
+// scripts/e2e.ts - End-to-end checks of the API server against the mock sites
+//
+// Starts the mock sites (scripts/mock-sites.ts), runs main.ts with the Gemini
+// and ChatGPT adapters pointed at them in a headless Chrome and sends real
+// API requests: plain and streamed generate/chat, OpenAI chat completions,
+// file uploads and the status endpoints. Needs no network or accounts, only a
+// Chrome or Chromium, e.g. one from `deno run -A npm:playwright install chromium`.
+//
+// Usage: deno run -A scripts/e2e.ts [--chrome-path <path>] [--verbose]
+import { chromium } from "npm:playwright@1.56.1";
+import { type ChildProcess, spawn } from "node:child_process";
+import { existsSync, mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { createServer } from "node:net";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { parseArgs } from "node:util";
+import process from "node:process";
+import { startMockSites } from "./mock-sites.ts";
+import { configureLogging, Logger } from "../logger.ts";
+
+const log = new Logger("E2E");
+
+const { values } = parseArgs({
+  args: process.argv.slice(2),
+  options: {
+    "chrome-path": { type: "string" },
+    verbose: { type: "boolean", short: "v" },
+    help: { type: "boolean", short: "h" },
+  },
+});
+
+if (values.help) {
+  console.log(`
+Usage: deno run -A scripts/e2e.ts [options]
+
+Options:
+  --chrome-path <path>  Chrome binary (default: Playwright's Chromium if
+                        installed, otherwise the usual Chrome locations)
+  -v, --verbose         Show the server's debug logs
+  -h, --help            Show this help message
+`);
+  process.exit(0);
+}
+
+configureLogging({ level: values.verbose ? "debug" : "info" });
+
+const GEMINI = "gemini-browser";
+const CHATGPT = "chatgpt-browser";
+
+// Seconds; the mocks answer within a few, a hang should fail fast
+const TIMEOUTS = { ready: 30, send: 30, generate: 60 };
+const STARTUP_TIMEOUT_MS = 30_000;
+
+function freePort(): Promise<number> {
+  return new Promise((resolve, reject) => {
+    const probe = createServer();
+    probe.once("error", reject);
+    probe.listen(0, "127.0.0.1", () => {
+      const address = probe.address();
+      probe.close(() =>
+        resolve(typeof address === "object" && address ? address.port : 0)
+      );
+    });
+  });
+}
+
+function bundledChromium(): string | undefined {
+  const path = chromium.executablePath();
+  return existsSync(path) ? path : undefined;
+}
+
+const base64 = (text: string) => btoa(text);
+
+// --- Server ---
+
+let api = "";
+
+async function waitForServer(server: ChildProcess) {
+  const deadline = Date.now() + STARTUP_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    if (server.exitCode !== null) {
+      throw new Error(`Server exited with code ${server.exitCode}`);
+    }
+    try {
+      const res = await fetch(`${api}/api/version`);
+      if (res.ok) return;
+    } catch {
+      // Not listening yet
+    }
+    await new Promise((r) => setTimeout(r, 250));
+  }
+  throw new Error("Server did not start in time");
+}
+
+function stopServer(server: ChildProcess): Promise<void> {
+  if (server.exitCode !== null) return Promise.resolve();
+  return new Promise((resolve) => {
+    // main.ts closes its tabs and the Chrome it launched on SIGTERM
+    const force = setTimeout(() => server.kill("SIGKILL"), 15_000);
+    server.once("exit", () => {
+      clearTimeout(force);
+      resolve();
+    });
+    server.kill("SIGTERM");
+  });
+}
+
+// --- Requests ---
+
+async function post(path: string, body: object): Promise<Response> {
+  const res = await fetch(`${api}${path}`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify(body),
+  });
+  if (!res.ok) throw new Error(`${path}: ${res.status} ${await res.text()}`);
+  return res;
+}
+
+async function get(path: string): Promise<Response> {
+  const res = await fetch(`${api}${path}`);
+  if (!res.ok) throw new Error(`${path}: ${res.status} ${await res.text()}`);
+  return res;
+}
+
+// deno-lint-ignore no-explicit-any
+async function ndjson(res: Response): Promise<any[]> {
+  const text = await res.text();
+  return text.trim().split("\n").map((line) => JSON.parse(line));
+}
+
+function expect(condition: unknown, message: string) {
+  if (!condition) throw new Error(message);
+}
+
+function expectReply(text: string, prompt: string) {
+  expect(text.includes(`You said: ${prompt}`), `reply lacks prompt: ${text}`);
+  expect(text.includes("```typescript"), `reply lacks code block: ${text}`);
+}
+
+// --- Checks ---
+
+const checks: [string, () => Promise<void>][] = [
+  ["gemini /api/generate", async () => {
+    const res = await post("/api/generate", {
+      model: GEMINI,
+      prompt: "ping gemini",
+      stream: false,
+    });
+    expectReply((await res.json()).response, "ping gemini");
+  }],
+
+  ["gemini /api/generate streamed", async () => {
+    const res = await post("/api/generate", {
+      model: GEMINI,
+      prompt: "stream gemini",
+    });
+    const chunks = await ndjson(res);
+    expect(chunks.length > 2, `only ${chunks.length} chunks`);
+    expect(chunks.at(-1).done, "last chunk is not done");
+    expectReply(chunks.map((c) => c.response).join(""), "stream gemini");
+  }],
+
+  ["gemini file upload", async () => {
+    const res = await post("/api/generate", {
+      model: GEMINI,
+      prompt: "read gemini file",
+      attachments: [{ name: "notes.txt", data: base64("hello") }],
+      stream: false,
+    });
+    const { response } = await res.json();
+    expect(response.includes("notes.txt"), `file not attached: ${response}`);
+  }],
+
+  ["chatgpt /api/chat", async () => {
+    const res = await post("/api/chat", {
+      model: CHATGPT,
+      messages: [{ role: "user", content: "ping chatgpt" }],
+      stream: false,
+    });
+    expectReply((await res.json()).message.content, "ping chatgpt");
+  }],
+
+  ["chatgpt /api/chat streamed", async () => {
+    const res = await post("/api/chat", {
+      model: CHATGPT,
+      messages: [{ role: "user", content: "stream chatgpt" }],
+    });
+    const chunks = await ndjson(res);
+    expect(chunks.length > 2, `only ${chunks.length} chunks`);
+    expect(chunks.at(-1).done, "last chunk is not done");
+    const content = chunks.map((c) => c.message?.content ?? "").join("");
+    expectReply(content, "stream chatgpt");
+  }],
+
+  ["chatgpt file upload", async () => {
+    const res = await post("/api/generate", {
+      model: CHATGPT,
+      prompt: "read chatgpt file",
+      attachments: [
+        { name: "a.txt", data: base64("a") },
+        { name: "b.txt", data: base64("b") },
+      ],
+      stream: false,
+    });
+    const { response } = await res.json();
+    // Uploads keep the client's file names behind a numeric prefix
+    const attached = ["a.txt", "b.txt"].every((name) =>
+      response.includes(name)
+    );
+    expect(attached, `files not attached: ${response}`);
+  }],
+
+  ["/v1/chat/completions", async () => {
+    const res = await post("/v1/chat/completions", {
+      model: CHATGPT,
+      messages: [{ role: "user", content: "ping openai" }],
+    });
+    const { choices } = await res.json();
+    expectReply(choices[0].message.content, "ping openai");
+  }],
+
+  ["output_format text and html", async () => {
+    const text = await post("/api/generate", {
+      model: CHATGPT,
+      prompt: "plain please",
+      output_format: "text",
+      stream: false,
+    });
+    const { response } = await text.json();
+    expect(
+      response.includes("You said: plain please"),
+      `bad text: ${response}`,
+    );
+    expect(!response.includes("```"), `markdown in text: ${response}`);
+
+    const html = await post("/api/generate", {
+      model: GEMINI,
+      prompt: "html please",
+      output_format: "html",
+      stream: false,
+    });
+    const raw = (await html.json()).response;
+    expect(raw.includes("<code-block>"), `not the page's HTML: ${raw}`);
+  }],
+
+  ["/api/status", async () => {
+    const { models } = await (await get("/api/status")).json();
+    for (const name of [GEMINI, CHATGPT]) {
+      // deno-lint-ignore no-explicit-any
+      const model = models.find((m: any) => m.name === name);
+      expect(model?.ready, `${name} is not ready`);
+      expect(model.signed_in, `${name} is not signed in`);
+      expect(!model.last_error, `${name} failed: ${model.last_error?.message}`);
+    }
+  }],
+
+  ["/metrics", async () => {
+    const text = await (await get("/metrics")).text();
+    expect(
+      text.includes(`wollama_requests_total{model="${GEMINI}"`),
+      "no request counter for gemini",
+    );
+  }],
+];
+
+// --- Main ---
+
+const mocks = await startMockSites();
+const workDir = mkdtempSync(join(tmpdir(), "wollama-e2e-"));
+const [apiPort, cdpPort] = [await freePort(), await freePort()];
+api = `http://127.0.0.1:${apiPort}`;
+
+const configPath = join(workDir, "wollama.json");
+writeFileSync(
+  configPath,
+  JSON.stringify({
+    host: "127.0.0.1",
+    port: apiPort,
+    chrome: {
+      path: values["chrome-path"] ?? bundledChromium(),
+      // Chrome refuses to sandbox itself as root, which is common in CI
+      flags: process.getuid?.() === 0 ? ["--no-sandbox"] : [],
+      cdpPort,
+      headless: true,
+    },
+    adapters: { enabled: [GEMINI, CHATGPT], baseUrls: mocks.baseUrls },
+    timeouts: TIMEOUTS,
+  }),
+);
+
+const mainPath = fileURLToPath(new URL("../main.ts", import.meta.url));
+const server = spawn(
+  process.execPath,
+  [
+    "run",
+    "-A",
+    mainPath,
+    "--config",
+    configPath,
+    "--log-level",
+    values.verbose ? "debug" : "warn",
+  ],
+  { stdio: ["ignore", "inherit", "inherit"] },
+);
+
+let failures = 0;
+try {
+  await waitForServer(server);
+  log.info(`Server up at ${api}, running ${checks.length} checks...`);
+
+  for (const [name, check] of checks) {
+    const start = performance.now();
+    try {
+      await check();
+      const seconds = ((performance.now() - start) / 1000).toFixed(1);
+      log.info(`✓ ${name} (${seconds}s)`);
+    } catch (error) {
+      failures++;
+      const message = error instanceof Error ? error.message : String(error);
+      log.error(`✗ ${name}: ${message}`);
+    }
+  }
+} catch (error) {
+  failures++;
+  const message = error instanceof Error ? error.message : String(error);
+  log.error(message);
+} finally {
+  await stopServer(server);
+  await mocks.close();
+  rmSync(workDir, { recursive: true, force: true });
+}
+
+log.info(
+  failures === 0
+    ? `All ${checks.length} checks passed`
+    : `${failures} check(s) failed`,
+);
+process.exit(failures === 0 ? 0 : 1);
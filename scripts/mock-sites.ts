@@ -0,0 +1,289 @@
+// scripts/mock-sites.ts - Local stand-ins for the chat sites, for offline tests
+//
+// Serves pages that reproduce the DOM the adapters drive: the contenteditable
+// input, Send/Stop buttons, the upload controls and the response containers
+// with their code block markup. Replies echo the prompt and the names of any
+// attached files, stream in word by word and end with a code block, so the
+// server can be exercised end to end without an account (see scripts/e2e.ts).
+//
+// Point the adapters at the mocks with "adapters.baseUrls" in wollama.json:
+//   "gemini-browser": "http://localhost:8400/gemini"
+//   "chatgpt-browser": "http://localhost:8400/chatgpt"
+//
+// Usage: deno run -A scripts/mock-sites.ts [--port 8400] [--delay 80]
+import { createServer } from "node:http";
+import type { AddressInfo } from "node:net";
+import { parseArgs } from "node:util";
+import process from "node:process";
+import { Logger } from "../logger.ts";
+
+const log = new Logger("Mock");
+
+export interface MockSitesOptions {
+  /** Port to listen on; 0 picks a free one */
+  port?: number;
+  /** Milliseconds between streamed words */
+  delayMs?: number;
+}
+
+export interface MockSites {
+  /** Base URL per model, ready for "adapters.baseUrls" */
+  baseUrls: Record<string, string>;
+  close(): Promise<void>;
+}
+
+// Runs in the page. The site-specific parts (markup of a reply and of a code
+// block, the conversation URL) come from the SITE object each page defines.
+const clientScript = `
+const $ = (id) => document.getElementById(id);
+const input = document.querySelector("[contenteditable=true]");
+const sendButton = $("send");
+const stopButton = $("stop");
+const fileInput = $("file");
+const attachments = $("attachments");
+let files = [];
+let stopped = false;
+let turn = 0;
+
+const sleep = (ms) => new Promise((r) => setTimeout(r, ms));
+
+function setGenerating(generating) {
+  sendButton.hidden = generating;
+  stopButton.hidden = !generating;
+}
+
+fileInput.addEventListener("change", async () => {
+  const added = [...fileInput.files].map((f) => f.name);
+  fileInput.value = "";
+  files.push(...added);
+  sendButton.disabled = true;
+  for (const name of added) attachments.append(SITE.attachment(name));
+  // Uploads take a moment, like on the real sites
+  await sleep(500);
+  attachments.querySelectorAll("[role=progressbar]").forEach((p) => p.remove());
+  sendButton.disabled = false;
+});
+
+stopButton.addEventListener("click", () => { stopped = true; });
+
+sendButton.addEventListener("click", async () => {
+  const prompt = input.innerText.trim();
+  if (!prompt || sendButton.disabled) return;
+  const attached = files;
+  files = [];
+  input.textContent = "";
+  attachments.textContent = "";
+
+  const question = document.createElement("div");
+  question.className = "user-query";
+  question.textContent = prompt;
+  $("chat").append(question);
+
+  if (turn++ === 0) history.pushState(null, "", SITE.conversationUrl());
+
+  const { reply, body } = SITE.reply();
+  $("chat").append(reply);
+  const paragraph = document.createElement("p");
+  body.append(paragraph);
+
+  let text = "You said: " + prompt;
+  if (attached.length > 0) text += " (attached: " + attached.join(", ") + ")";
+  text += ". This reply streams in word by word so clients can watch it grow.";
+
+  stopped = false;
+  setGenerating(true);
+  await sleep(DELAY_MS * 3);
+  for (const word of text.split(" ")) {
+    if (stopped) break;
+    paragraph.textContent += (paragraph.textContent ? " " : "") + word;
+    await sleep(DELAY_MS);
+  }
+  if (!stopped) {
+    body.append(SITE.codeBlock("typescript", 'console.log("mock ' + turn + '");'));
+  }
+  setGenerating(false);
+});
+`;
+
+const geminiSite = `
+const SITE = {
+  attachment(name) {
+    const tile = document.createElement("div");
+    tile.className = "file-preview";
+    tile.textContent = name;
+    return tile;
+  },
+  conversationUrl: () =>
+    location.pathname.replace(/\\/app.*$/, "/app/mock-" + Date.now()),
+  reply() {
+    const reply = document.createElement("div");
+    reply.className = "model-response-text";
+    const body = document.createElement("div");
+    body.className = "markdown";
+    reply.append(body);
+    return { reply, body };
+  },
+  codeBlock(lang, code) {
+    const block = document.createElement("code-block");
+    block.innerHTML =
+      '<div class="code-block-decoration"><span></span></div>' +
+      '<pre><code data-test-id="code-content"></code></pre>';
+    block.querySelector("span").textContent = lang;
+    block.querySelector("code").textContent = code;
+    return block;
+  },
+};
+$("upload-menu").addEventListener("click", () => {
+  $("upload-options").hidden = false;
+});
+$("upload").addEventListener("click", () => {
+  $("upload-options").hidden = true;
+  fileInput.click();
+});
+`;
+
+const geminiPage = `<!doctype html>
+<html>
+<head><meta charset="utf-8"><title>Gemini (mock)</title></head>
+<body>
+  <main id="chat"></main>
+  <div class="input-area">
+    <button aria-label="Open upload file menu" id="upload-menu">+</button>
+    <div id="upload-options" hidden>
+      <button data-test-id="local-images-files-uploader-button" id="upload">
+        Upload files
+      </button>
+    </div>
+    <input type="file" id="file" multiple hidden>
+    <div id="attachments"></div>
+    <rich-textarea>
+      <div role="textbox" aria-label="Enter a prompt here" contenteditable="true"></div>
+    </rich-textarea>
+    <button aria-label="Send message" id="send">Send</button>
+    <button aria-label="Stop response" id="stop" hidden>Stop</button>
+  </div>
+  <script>const DELAY_MS = __DELAY__;</script>
+  <script>${clientScript}${geminiSite}</script>
+</body>
+</html>`;
+
+const chatgptSite = `
+const SITE = {
+  attachment(name) {
+    const tile = document.createElement("div");
+    tile.dataset.testid = "attachment-tile";
+    tile.textContent = name;
+    const progress = document.createElement("div");
+    progress.setAttribute("role", "progressbar");
+    tile.append(progress);
+    return tile;
+  },
+  conversationUrl: () =>
+    location.pathname.replace(/\\/(c\\/.*)?$/, "") + "/c/mock-" + Date.now(),
+  reply() {
+    const reply = document.createElement("div");
+    reply.dataset.messageAuthorRole = "assistant";
+    const body = document.createElement("div");
+    body.className = "markdown prose";
+    reply.append(body);
+    return { reply, body };
+  },
+  codeBlock(lang, code) {
+    const pre = document.createElement("pre");
+    pre.innerHTML =
+      '<div class="flex text-xs"></div><button>Copy code</button><code></code>';
+    pre.querySelector("div").textContent = lang;
+    pre.querySelector("code").textContent = code;
+    return pre;
+  },
+};
+`;
+
+const chatgptPage = `<!doctype html>
+<html>
+<head><meta charset="utf-8"><title>ChatGPT (mock)</title></head>
+<body>
+  <main id="chat"></main>
+  <form id="composer" onsubmit="return false">
+    <input type="file" id="file" multiple hidden>
+    <input type="file" accept="image/*" multiple hidden>
+    <div id="attachments"></div>
+    <div id="prompt-textarea" contenteditable="true"></div>
+    <button type="button" data-testid="send-button" id="send">Send</button>
+    <button type="button" data-testid="stop-button" id="stop" hidden>Stop</button>
+  </form>
+  <script>const DELAY_MS = __DELAY__;</script>
+  <script>${clientScript}${chatgptSite}</script>
+</body>
+</html>`;
+
+// Path prefix -> page; conversation URLs below a prefix get the same page
+const pages: Record<string, { page: string; home: string }> = {
+  gemini: { page: geminiPage, home: "/gemini/app" },
+  chatgpt: { page: chatgptPage, home: "/chatgpt/" },
+};
+
+export function startMockSites(
+  options: MockSitesOptions = {},
+): Promise<MockSites> {
+  const delay = String(options.delayMs ?? 80);
+
+  const server = createServer((req, res) => {
+    const { pathname } = new URL(req.url ?? "/", "http://localhost");
+    const [, prefix, rest] = pathname.match(/^\/([^/]+)(\/.*)?$/) ?? [];
+    const site = pages[prefix];
+
+    if (!site) {
+      res.writeHead(404, { "Content-Type": "text/plain" });
+      res.end("Not found\n");
+      return;
+    }
+    // Gemini's chat lives under /app, like on gemini.google.com
+    if (prefix === "gemini" && !rest?.startsWith("/app")) {
+      res.writeHead(302, { Location: site.home });
+      res.end();
+      return;
+    }
+    res.writeHead(200, { "Content-Type": "text/html; charset=utf-8" });
+    res.end(site.page.replace("__DELAY__", delay));
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port ?? 0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      const root = `http://127.0.0.1:${port}`;
+      resolve({
+        baseUrls: {
+          "gemini-browser": `${root}/gemini`,
+          "chatgpt-browser": `${root}/chatgpt`,
+        },
+        close: () =>
+          new Promise((done) => {
+            server.closeAllConnections();
+            server.close(() => done());
+          }),
+      });
+    });
+  });
+}
+
+if (import.meta.main) {
+  const { values } = parseArgs({
+    args: process.argv.slice(2),
+    options: {
+      port: { type: "string", default: "8400" },
+      delay: { type: "string", default: "80" },
+    },
+  });
+
+  const sites = await startMockSites({
+    port: Number(values.port),
+    delayMs: Number(values.delay),
+  });
+  const settings = { adapters: { baseUrls: sites.baseUrls } };
+  log.info(
+    `Mock sites running, add to wollama.json:\n` +
+      JSON.stringify(settings, null, 2),
+  );
+}
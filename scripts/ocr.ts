@@ -1,7 +1,11 @@
 import { GeminiAdapter } from "../gemini-adapter.ts";
+import { ChatGPTAdapter } from "../chatgpt-adapter.ts";
 import { parseArgs } from "node:util";
 import { resolve } from "node:path";
 import process from "node:process";
+import { configureLogging, Logger } from "../logger.ts";
+
+const log = new Logger("OCR");
 
 const { values, positionals } = parseArgs({
   args: process.argv.slice(2),
@@ -23,17 +27,27 @@ const { values, positionals } = parseArgs({
       type: "boolean",
       short: "q",
     },
+    verbose: {
+      type: "boolean",
+      short: "v",
+    },
+    model: {
+      type: "string",
+      short: "m",
+      default: "gemini",
+    },
   },
   allowPositionals: true,
 });
 
-if (values.quiet) {
-  console.log = () => {};
-}
+// Quiet keeps stdout for the response alone; warnings still go to stderr
+configureLogging({
+  level: values.quiet ? "warn" : values.verbose ? "debug" : "info",
+});
 
 if (values.help) {
   process.stdout.write(`
-Gemini OCR Tool
+Gemini/ChatGPT OCR Tool
 
 Usage: deno run -A scripts/ocr.ts [options] [prompt] [files...]
 
@@ -41,12 +55,17 @@ Options:
   -p, --prompt <text>   The prompt to send (default: "OCR this file and return the text")
   -f, --file <path>     File(s) to upload (can be used multiple times)
   -q, --quiet           Only output the model response
+  -v, --verbose         Also print debug messages
+  -m, --model <name>    Model to use: gemini or chatgpt, optionally with a
+                        variant tag like gemini:pro (default: gemini)
   -h, --help            Show this help message
 
 Examples:
   deno run -A scripts/ocr.ts -f ./doc.pdf
   deno run -A scripts/ocr.ts -q -f ./doc.pdf > output.md
   deno run -A scripts/ocr.ts "Summarize this" ./doc.pdf
+  deno run -A scripts/ocr.ts -m chatgpt -f ./scan.png
+  deno run -A scripts/ocr.ts -m gemini:pro -f ./scan.png
 `);
   process.exit(0);
 }
@@ -81,14 +100,29 @@ if (files.length === 0) {
 // Resolve paths
 const absFiles = files.map((f) => resolve(process.cwd(), f));
 
-console.log(`Prompt: "${prompt}"`);
-console.log(`Files: ${absFiles.join(", ")}`);
+log.info(`Prompt: "${prompt}"`);
+log.info(`Files: ${absFiles.join(", ")}`);
+
+const [site, variant] = values.model.split(":", 2);
 
-const adapter = new GeminiAdapter();
+if (site !== "gemini" && site !== "chatgpt") {
+  process.stderr.write(`Error: Unknown model "${values.model}".\n`);
+  process.exit(1);
+}
+
+const adapter = site === "chatgpt" ? new ChatGPTAdapter() : new GeminiAdapter();
+
+if (variant && !adapter.metadata.variants?.includes(variant)) {
+  process.stderr.write(
+    `Error: Unknown variant "${variant}", expected one of: ` +
+      `${adapter.metadata.variants?.join(", ")}\n`,
+  );
+  process.exit(1);
+}
 
 try {
   await adapter.ensureReady();
-  const response = await adapter.sendMessage(prompt, absFiles);
+  const response = await adapter.sendMessage(prompt, absFiles, { variant });
   if (values.quiet) {
     process.stdout.write(response + "\n");
   } else {
@@ -0,0 +1,135 @@
+// scripts/replay-fixtures.ts - Replay recorded responses through the converters
+//
+// Fixtures are recorded by running the server with --record-fixtures <dir>
+// (see fixtures.ts): <dir>/<site>/<name>.html holds a response's HTML and
+// <name>.md the markdown it became. This script converts every saved HTML
+// with the current converters and diffs the output against the markdown, so
+// converter changes that alter known-good output are caught before release.
+// When a change is intended, --update accepts the new output.
+//
+// Usage: deno run -A scripts/replay-fixtures.ts [dir] [--update]
+import "../gemini-adapter.ts";
+import "../chatgpt-adapter.ts";
+import "../claude-adapter.ts";
+import "../lechat-adapter.ts";
+import { existsSync, writeFileSync } from "node:fs";
+import { resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import { parseArgs } from "node:util";
+import process from "node:process";
+import { getConverter, readFixtures } from "../fixtures.ts";
+import { Logger } from "../logger.ts";
+
+const log = new Logger("Replay");
+
+const { values, positionals } = parseArgs({
+  args: process.argv.slice(2),
+  options: {
+    update: { type: "boolean", short: "u" },
+    adapter: { type: "string", short: "a", multiple: true },
+    help: { type: "boolean", short: "h" },
+  },
+  allowPositionals: true,
+});
+
+if (values.help) {
+  console.log(`
+Usage: deno run -A scripts/replay-fixtures.ts [dir] [options]
+
+Arguments:
+  dir                   Recorded fixtures (default: ./fixtures)
+
+Options:
+  -u, --update          Overwrite the recorded markdown with the current output
+  -a, --adapter <path>  Load an extra adapter module for its converter
+  -h, --help            Show this help message
+`);
+  process.exit(0);
+}
+
+// Changed lines as -/+ with a line of context, from the longest common
+// subsequence of the two texts' lines
+function diffLines(expected: string, actual: string): string[] {
+  const a = expected.split("\n");
+  const b = actual.split("\n");
+  const lcs = Array.from(
+    { length: a.length + 1 },
+    () => new Array<number>(b.length + 1).fill(0),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j]
+        ? lcs[i + 1][j + 1] + 1
+        : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: [string, string][] = [];
+  let i = 0, j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      lines.push([" ", a[i++]]);
+      j++;
+    } else if (
+      i < a.length && (j === b.length || lcs[i + 1][j] >= lcs[i][j + 1])
+    ) {
+      lines.push(["-", a[i++]]);
+    } else {
+      lines.push(["+", b[j++]]);
+    }
+  }
+
+  const changed = (k: number) => lines[k] && lines[k][0] !== " ";
+  return lines
+    .filter((_, k) => changed(k - 1) || changed(k) || changed(k + 1))
+    .map(([mark, line]) => `  ${mark} ${line}`);
+}
+
+for (const modulePath of values.adapter ?? []) {
+  await import(pathToFileURL(resolve(modulePath)).href);
+}
+
+const dir = resolve(positionals[0] ?? "fixtures");
+if (!existsSync(dir)) {
+  log.error(`No fixtures in ${dir}; record some with --record-fixtures`);
+  process.exit(1);
+}
+
+let passed = 0;
+let failed = 0;
+let updated = 0;
+
+for (const fixture of readFixtures(dir)) {
+  const convert = getConverter(fixture.site);
+  if (!convert) {
+    log.error(`✗ ${fixture.name}: no converter registered for ${fixture.site}`);
+    failed++;
+    continue;
+  }
+
+  const actual = convert(fixture.html);
+  const expected = fixture.markdown;
+
+  if (actual === expected) {
+    passed++;
+  } else if (values.update) {
+    writeFileSync(fixture.markdownPath, actual);
+    log.info(`Updated ${fixture.name}.md`);
+    updated++;
+  } else if (expected === null) {
+    log.error(`✗ ${fixture.name}: no recorded markdown`);
+    failed++;
+  } else {
+    log.error(
+      `✗ ${fixture.name}: output changed\n` +
+        diffLines(expected, actual).join("\n"),
+    );
+    failed++;
+  }
+}
+
+log.info(
+  `${passed} unchanged, ${failed} failed` +
+    (values.update ? `, ${updated} updated` : ""),
+);
+process.exit(failed === 0 ? 0 : 1);
@@ -0,0 +1,211 @@
+// selectors.ts - Ordered selector fallback chains for site UI elements
+//
+// Sites change their markup often. Each logical element (input, send button,
+// response, ...) is described by an ordered list of candidate selectors. The
+// first candidate that matches wins and is remembered, so a broken primary
+// selector shows up in the logs as a fallback instead of a silent hang, and a
+// completely broken element fails with a SelectorNotFoundError.
+//
+// Sites may also describe the pages that replace the chat when something is
+// wrong: "signIn", "captcha" and "quota" chains. When an element can't be
+// found, those are checked first so the client gets a specific error. They
+// should only match the site's own banners and notices, never text that may
+// just as well appear in a conversation.
+import { Locator, Page } from "npm:playwright@1.56.1";
+import {
+  CaptchaDetectedError,
+  QuotaExceededError,
+  SelectorNotFoundError,
+  SignInRequiredError,
+} from "./errors.ts";
+import { getTimeout } from "./timeouts.ts";
+import { Logger } from "./logger.ts";
+
+const log = new Logger("Selectors");
+
+const POLL_INTERVAL_MS = 250;
+
+export interface ResolveOptions {
+  /** "visible" for interactive elements, "attached" for content nodes */
+  state?: "visible" | "attached";
+  /** Defaults to the send phase timeout, 0 waits forever */
+  timeoutMs?: number;
+}
+
+// site -> element -> selector that last matched, reported by /api/status so
+// a site running on fallback selectors shows up before it breaks entirely
+const matchedSelectors = new Map<string, Map<string, string>>();
+
+export function getMatchedSelectors(): Record<string, Record<string, string>> {
+  const report: Record<string, Record<string, string>> = {};
+  for (const [site, elements] of matchedSelectors) {
+    report[site] = Object.fromEntries(elements);
+  }
+  return report;
+}
+
+export class SelectorSet<K extends string> {
+  constructor(
+    readonly site: string,
+    private chains: Record<K, string[]>,
+  ) {}
+
+  /** Locator matching any candidate, for elements that may legitimately be absent */
+  any(page: Page, element: K): Locator {
+    return page.locator(this.chains[element].join(", "));
+  }
+
+  /** Waits for the first candidate to match and returns a locator for it */
+  async resolve(
+    page: Page,
+    element: K,
+    options: ResolveOptions = {},
+  ): Promise<Locator> {
+    const state = options.state ?? "visible";
+    const timeoutMs = options.timeoutMs ?? getTimeout("send");
+    const deadline = Date.now() + timeoutMs;
+
+    while (true) {
+      for (const candidate of this.chains[element]) {
+        const locator = page.locator(candidate);
+        const found = state === "visible"
+          ? await locator.first().isVisible()
+          : await locator.count() > 0;
+        if (found) {
+          this.record(element, candidate);
+          return locator;
+        }
+      }
+
+      if (timeoutMs > 0 && Date.now() >= deadline) {
+        await this.checkBlocked(page);
+        throw new SelectorNotFoundError(
+          this.site,
+          element,
+          this.chains[element],
+          timeoutMs,
+        );
+      }
+      await page.waitForTimeout(POLL_INTERVAL_MS);
+    }
+  }
+
+  /** Number of nodes each candidate matches, to detect new nodes later */
+  async count(page: Page, element: K): Promise<number[]> {
+    return await Promise.all(
+      this.chains[element].map((candidate) => page.locator(candidate).count()),
+    );
+  }
+
+  /**
+   * Returns the newest node of the first candidate that gained nodes since
+   * `before` was taken with `count()`, or null if none did yet.
+   */
+  async findNew(
+    page: Page,
+    element: K,
+    before: number[],
+  ): Promise<Locator | null> {
+    const after = await this.count(page, element);
+    const index = after.findIndex((n, i) => n > before[i]);
+    if (index === -1) return null;
+
+    const candidate = this.chains[element][index];
+    this.record(element, candidate);
+    return page.locator(candidate).last();
+  }
+
+  /** Waits until `findNew()` finds a node, failing like `resolve()` on timeout */
+  async waitForNew(
+    page: Page,
+    element: K,
+    before: number[],
+    timeoutMs = getTimeout("send"),
+  ): Promise<Locator> {
+    const deadline = Date.now() + timeoutMs;
+    while (true) {
+      const locator = await this.findNew(page, element, before);
+      if (locator) return locator;
+
+      if (timeoutMs > 0 && Date.now() >= deadline) {
+        await this.checkBlocked(page);
+        throw new SelectorNotFoundError(
+          this.site,
+          element,
+          this.chains[element],
+          timeoutMs,
+        );
+      }
+      await page.waitForTimeout(POLL_INTERVAL_MS);
+    }
+  }
+
+  /**
+   * Throws SignInRequiredError, CaptchaDetectedError or QuotaExceededError if
+   * one of the site's "signIn", "captcha" or "quota" candidates is visible.
+   */
+  async checkBlocked(page: Page) {
+    const blockers = [
+      ["signIn", SignInRequiredError],
+      ["captcha", CaptchaDetectedError],
+      ["quota", QuotaExceededError],
+    ] as const;
+
+    for (const [element, BlockedError] of blockers) {
+      if (await this.isVisible(page, element)) {
+        throw new BlockedError(this.site);
+      }
+    }
+  }
+
+  /**
+   * Signed-in probe: waits up to `timeoutMs` (0 = forever) for the chat input
+   * or a "signIn" candidate. True once the input shows without a sign-in
+   * prompt; false if a prompt shows or neither appears in time. Sites that
+   * let logged-out users chat show both, so the prompt wins.
+   */
+  async isSignedIn(
+    page: Page,
+    timeoutMs = getTimeout("ready"),
+  ): Promise<boolean> {
+    const deadline = Date.now() + timeoutMs;
+    while (!page.isClosed()) {
+      if (await this.isVisible(page, "signIn")) return false;
+      if (await this.isVisible(page, "input")) return true;
+
+      if (timeoutMs > 0 && Date.now() >= deadline) break;
+      await page.waitForTimeout(POLL_INTERVAL_MS).catch(() => {});
+    }
+    return false;
+  }
+
+  // Text candidates use Playwright pseudo-classes, so each is checked on its
+  // own; pages mid-navigation count as not showing the element
+  private async isVisible(page: Page, element: string): Promise<boolean> {
+    const chains: Partial<Record<string, string[]>> = this.chains;
+    for (const candidate of chains[element] ?? []) {
+      const visible = await page.locator(candidate).first().isVisible()
+        .catch(() => false);
+      if (visible) return true;
+    }
+    return false;
+  }
+
+  private record(element: K, candidate: string) {
+    let elements = matchedSelectors.get(this.site);
+    if (!elements) {
+      elements = new Map();
+      matchedSelectors.set(this.site, elements);
+    }
+    if (elements.get(element) === candidate) return;
+
+    elements.set(element, candidate);
+    const index = this.chains[element].indexOf(candidate);
+    if (index > 0) {
+      log.warn(
+        `${this.site} "${element}": primary selector failed, ` +
+          `using fallback #${index + 1} ${candidate}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,196 @@
+// site-adapter.ts - Tab lifecycle shared by the browser adapters
+//
+// Every adapter drives one tab of a shared Chrome: it picks up a tab already
+// showing its site (or opens one), claims it so no other adapter sends into
+// it, waits for the chat input and refuses to serve from a signed-out tab.
+// SiteAdapter does all of that from the site's URLs and selector set, so an
+// adapter only adds its sendMessage() flow and its markup rules.
+import type { Page } from "npm:playwright@1.56.1";
+import {
+  type BrowserManager,
+  cdpPortFor,
+  claimPage,
+  getBrowserManager,
+  isPageClaimed,
+  releasePage,
+  setUseDefaultProfile,
+} from "./browser.ts";
+import {
+  type AdapterCapabilities,
+  type AdapterMetadata,
+  baseUrlFor,
+  type BrowserChatAdapter,
+  type ReadyOptions,
+  type SendMessageOptions,
+  type TabStatus,
+} from "./adapter.ts";
+import type { SelectorSet } from "./selectors.ts";
+import { getTimeout } from "./timeouts.ts";
+import { SignInRequiredError } from "./errors.ts";
+import type { Logger } from "./logger.ts";
+
+export interface SiteUrls {
+  /** Site root, e.g. "https://claude.ai"; "adapters.baseUrls" may replace it */
+  root: string;
+  /** Path of a fresh chat, for new tabs and `openConversation(null)` */
+  newChat: string;
+  /**
+   * Path the chat lives under; a tab elsewhere on the site is sent to a fresh
+   * chat. Unset accepts any page of the site.
+   */
+  chat?: string;
+}
+
+export interface SiteReadyOptions extends ReadyOptions {
+  /** Chrome debugging port, instead of the one configured for the model */
+  port?: number;
+  /** Launch Chrome with the user's default profile */
+  defaultProfile?: boolean;
+}
+
+export abstract class SiteAdapter implements BrowserChatAdapter {
+  abstract readonly metadata: AdapterMetadata;
+  abstract readonly capabilities: AdapterCapabilities;
+  protected page: Page | null = null;
+  private browserManager: BrowserManager | null = null;
+  // Whether we opened the tab (and may close it) or took over the user's
+  private openedPage = false;
+  private isReady = false;
+
+  constructor(
+    protected readonly selectors: SelectorSet<"input">,
+    protected readonly log: Logger,
+    private readonly urls: SiteUrls,
+  ) {}
+
+  abstract sendMessage(
+    prompt: string,
+    files?: string[],
+    options?: SendMessageOptions,
+  ): Promise<string>;
+
+  // Root of the site as configured, without a trailing slash
+  private siteUrl(): string {
+    return baseUrlFor(this.metadata.name, this.urls.root);
+  }
+
+  private newChatUrl(): string {
+    return `${this.siteUrl()}${this.urls.newChat}`;
+  }
+
+  async ensureReady(options: SiteReadyOptions = {}) {
+    if (this.isReady && this.page && !this.page.isClosed()) return;
+
+    if (options.defaultProfile !== undefined) {
+      setUseDefaultProfile(options.defaultProfile);
+    }
+
+    this.browserManager ??= getBrowserManager(
+      options.port || cdpPortFor(this.metadata.name),
+    );
+    const browser = await this.browserManager.acquire(this);
+
+    const contexts = browser.contexts();
+    if (contexts.length === 0) throw new Error("No browser context found");
+    const context = contexts[0];
+
+    if (this.page && !this.page.isClosed()) {
+      // Kept after a failed attempt (signed out, captcha, limit): it is still
+      // claimed by us, so look for no other tab and open none
+      this.log.debug("Reusing the tab from the last attempt");
+    } else {
+      const existing = options.newTab
+        ? undefined
+        : context.pages().find((p) =>
+          p.url().startsWith(this.siteUrl()) && !isPageClaimed(p)
+        );
+
+      if (existing) {
+        this.log.info(`Found existing ${this.metadata.site} tab.`);
+        this.page = existing;
+        this.openedPage = false;
+      } else {
+        this.log.info(`Opening new ${this.metadata.site} tab...`);
+        this.page = await context.newPage();
+        this.openedPage = true;
+      }
+    }
+
+    claimPage(this.page);
+    this.page.setDefaultTimeout(getTimeout("send"));
+    this.page.setDefaultNavigationTimeout(getTimeout("ready"));
+
+    const chatUrl = `${this.siteUrl()}${this.urls.chat ?? ""}`;
+    if (!this.page.url().startsWith(chatUrl)) {
+      this.log.info(`Navigating to ${this.siteUrl()}...`);
+      await this.page.goto(this.newChatUrl(), {
+        waitUntil: "domcontentloaded",
+      });
+    }
+
+    if (options.openOnly) return;
+
+    this.log.debug("Waiting for chat interface...");
+    await this.selectors.resolve(this.page, "input", {
+      timeoutMs: getTimeout("ready"),
+    });
+
+    // Logged-out sites may still offer a chat; never serve requests from them
+    if (options.ensureSignedIn && !(await this.isSignedIn())) {
+      throw new SignInRequiredError(this.selectors.site);
+    }
+
+    this.log.info("✓ Connected and Ready!");
+    this.isReady = true;
+  }
+
+  async isSignedIn(timeoutMs = getTimeout("ready")): Promise<boolean> {
+    if (!this.page) return false;
+    return await this.selectors.isSignedIn(this.page, timeoutMs);
+  }
+
+  async openConversation(url: string | null) {
+    if (!this.page) throw new Error("Browser not initialized");
+
+    const target = url ?? this.newChatUrl();
+    if (this.page.url() === target) return;
+
+    this.log.info(
+      url ? `Opening conversation ${url}...` : "Starting new conversation...",
+    );
+    await this.page.goto(target, { waitUntil: "domcontentloaded" });
+    await this.selectors.resolve(this.page, "input", {
+      timeoutMs: getTimeout("ready"),
+    });
+  }
+
+  getConversationUrl(): string | null {
+    return this.page?.url() ?? null;
+  }
+
+  getTabStatus(): TabStatus {
+    if (!this.page || this.page.isClosed()) return { ready: false, url: null };
+    return { ready: this.isReady, url: this.page.url() };
+  }
+
+  async resetTab() {
+    this.isReady = false;
+    if (!this.page) return;
+
+    releasePage(this.page);
+    // Only close tabs we opened; a tab the user had open is just released
+    if (this.openedPage && !this.page.isClosed()) {
+      await this.page.close();
+    }
+    this.page = null;
+    this.openedPage = false;
+  }
+
+  async close() {
+    this.log.info("Disconnecting adapter...");
+    if (this.page) releasePage(this.page);
+    await this.browserManager?.release(this);
+    this.browserManager = null;
+    this.isReady = false;
+  }
+}
@@ -0,0 +1,131 @@
+// streaming.ts - Incremental markdown deltas from a growing response node
+import { Locator, Page } from "npm:playwright@1.56.1";
+import { ResponseTimeoutError } from "./errors.ts";
+import { getTimeout } from "./timeouts.ts";
+import { Logger } from "./logger.ts";
+
+const log = new Logger("Stream");
+
+// The response is re-rendered to markdown on every poll, and a partial render
+// is not always a prefix of the final one (e.g. an unterminated code fence).
+// Only the part two consecutive renders agree on is emitted, up to the last
+// whole word (a word still being written may render differently once done,
+// e.g. "42." becoming "43,"), so clients that concatenate deltas never receive
+// text that later changes.
+export class MarkdownDeltaStream {
+  private emitted = "";
+  private previous = "";
+
+  constructor(private onDelta: (delta: string) => void) {}
+
+  update(markdown: string) {
+    let i = 0;
+    const max = Math.min(this.previous.length, markdown.length);
+    while (i < max && this.previous[i] === markdown[i]) i++;
+    this.previous = markdown;
+    this.emit(markdown.slice(0, i).replace(/\S+$/, ""));
+  }
+
+  // Sends whatever the final markdown adds to the streamed text. Deltas can't
+  // be taken back, so when the final render changed text already sent (e.g.
+  // Gemini inserts source chips mid-paragraph) the stream resumes after the
+  // sent text instead of dropping the rest of the answer. Text that was
+  // rewritten is restated from the start of its line, never spliced into the
+  // old version mid-word.
+  finish(markdown: string) {
+    if (this.emit(markdown)) return;
+
+    let common = 0;
+    while (
+      common < markdown.length && markdown[common] === this.emitted[common]
+    ) {
+      common++;
+    }
+    // Text sent past the divergence usually still follows the insertion;
+    // resume after it so nothing is repeated
+    const sentTail = this.emitted.slice(common);
+    const found = sentTail ? markdown.indexOf(sentTail, common) : -1;
+    log.warn(
+      `Final response diverged from streamed text at ${common} of ` +
+        `${this.emitted.length} streamed characters, sending the rest`,
+    );
+    let tail: string;
+    if (found >= 0) {
+      tail = markdown.slice(found + sentTail.length);
+    } else {
+      const lineStart = markdown.lastIndexOf("\n", common - 1) + 1;
+      tail = `\n\n${markdown.slice(lineStart)}`;
+    }
+    if (tail) this.onDelta(tail);
+    this.emitted = markdown;
+  }
+
+  private emit(text: string): boolean {
+    if (!text.startsWith(this.emitted)) return false;
+    if (text.length > this.emitted.length) {
+      this.onDelta(text.slice(this.emitted.length));
+      this.emitted = text;
+    }
+    return true;
+  }
+}
+
+export interface WatchResponseOptions {
+  /** Site name for the timeout error */
+  site: string;
+  page: Page;
+  /** Returns true while the site is still generating */
+  isGenerating: () => Promise<boolean>;
+  /** Returns the markdown rendered so far, or null if there is nothing to stream yet */
+  render?: () => Promise<string | null>;
+  /** Without it the response is only waited for, not rendered while it grows */
+  onDelta?: (delta: string) => void;
+  /** Stops watching early; the caller is expected to stop generation */
+  signal?: AbortSignal;
+  intervalMs?: number;
+}
+
+// Polls the response until generation stops or the signal aborts, failing with
+// ResponseTimeoutError after the generate phase timeout. The caller passes the
+// final markdown to `finish()` on the returned stream to flush the remainder.
+export async function watchResponse(
+  options: WatchResponseOptions,
+): Promise<MarkdownDeltaStream> {
+  const stream = new MarkdownDeltaStream(options.onDelta ?? (() => {}));
+  const interval = options.intervalMs ?? 250;
+  const timeoutMs = getTimeout("generate");
+  const deadline = Date.now() + timeoutMs;
+
+  while (!options.signal?.aborted && await options.isGenerating()) {
+    if (timeoutMs > 0 && Date.now() >= deadline) {
+      throw new ResponseTimeoutError(options.site, "generate", timeoutMs);
+    }
+    if (options.onDelta && options.render) {
+      const markdown = await options.render();
+      if (markdown !== null) stream.update(markdown);
+    }
+    await options.page.waitForTimeout(interval);
+  }
+
+  return stream;
+}
+
+// Clicks the site's Stop button and waits for generation to wind down, so the
+// tab is left idle for the next request. Throws if the site keeps generating,
+// which makes the scheduler recycle the tab instead.
+export async function stopGeneration(
+  page: Page,
+  stopButton: Locator,
+  isGenerating: () => Promise<boolean>,
+  timeoutMs = 10000,
+) {
+  await stopButton.click({ timeout: 5000 }).catch(() => {});
+
+  const deadline = Date.now() + timeoutMs;
+  while (await isGenerating()) {
+    if (Date.now() > deadline) {
+      throw new Error("Generation did not stop after clicking Stop");
+    }
+    await page.waitForTimeout(250);
+  }
+}
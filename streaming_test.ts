@@ -0,0 +1,54 @@
+// streaming_test.ts - Deltas sent by MarkdownDeltaStream
+import assert from "node:assert/strict";
+import { MarkdownDeltaStream } from "./streaming.ts";
+import { configureLogging } from "./logger.ts";
+
+configureLogging({ level: "error" });
+
+function collect(renders: string[], final: string): string[] {
+  const deltas: string[] = [];
+  const stream = new MarkdownDeltaStream((delta) => deltas.push(delta));
+  for (const markdown of renders) stream.update(markdown);
+  stream.finish(final);
+  return deltas;
+}
+
+Deno.test("emits only what consecutive renders agree on", () => {
+  const deltas = collect(
+    ["Hello", "Hello wor", "Hello world\n\n```ts\nx"],
+    "Hello world\n\n```ts\nx\n```",
+  );
+  assert.equal(deltas.join(""), "Hello world\n\n```ts\nx\n```");
+  assert.equal(deltas[0], "Hello ");
+});
+
+Deno.test("keeps the tail when the final render inserts text", () => {
+  // A source chip shows up mid-text once the answer is complete
+  const deltas = collect(
+    ["Paris is the capital", "Paris is the capital of France."],
+    "Paris [1] is the capital of France. It lies on the Seine.",
+  );
+  assert.equal(
+    deltas.join(""),
+    "Paris is the capital of France. It lies on the Seine.",
+  );
+});
+
+Deno.test("holds back the word still being written", () => {
+  const deltas = collect(
+    ["The answer is 42.", "The answer is 42. Done"],
+    "The answer is 43, see below.",
+  );
+  assert.equal(deltas.join(""), "The answer is 43, see below.");
+});
+
+Deno.test("restates a rewritten line instead of splicing it", () => {
+  const deltas = collect(
+    ["The answer is 42 and more", "The answer is 42 and more text"],
+    "The answer is 43 and more text.",
+  );
+  assert.equal(
+    deltas.join(""),
+    "The answer is 42 and \n\nThe answer is 43 and more text.",
+  );
+});
@@ -0,0 +1,28 @@
+// timeouts.ts - Per-phase time limits for driving the chat sites
+//
+//   ready:    opening the tab until the chat input shows up. Generous, since
+//             the user may still be signing in when the tab opens
+//   send:     each UI step of submitting a prompt (typing, clicks, uploads)
+//   upload:   the site processing uploaded files until the prompt can be sent;
+//             large PDFs take a while after the upload itself
+//   generate: the site producing its whole answer
+//
+// A limit of 0 waits forever.
+export type Phase = "ready" | "send" | "upload" | "generate";
+
+export type PhaseTimeouts = Record<Phase, number>;
+
+const timeouts: PhaseTimeouts = {
+  ready: 120_000,
+  send: 30_000,
+  upload: 120_000,
+  generate: 600_000,
+};
+
+export function configureTimeouts(overrides: Partial<PhaseTimeouts>) {
+  Object.assign(timeouts, overrides);
+}
+
+export function getTimeout(phase: Phase): number {
+  return timeouts[phase];
+}